@@ -0,0 +1,30 @@
+/**
+ * Storage of the card a customer picked for one-click checkout.
+ * xMoney has no default card, use a shared store such as a column of your
+ * customers table when running several instances.
+ */
+export interface DefaultCardStore {
+  /**
+   * Resolves the card id stored for the xMoney customer id, if any.
+   */
+  get(customerId: number): Promise<number | undefined>;
+
+  set(customerId: number, cardId: number): Promise<void>;
+}
+
+/**
+ * In-process store, the default when no store is configured.
+ * Defaults are lost on restart: getDefaultCard then falls back to the last saved card.
+ */
+export class InMemoryDefaultCardStore implements DefaultCardStore {
+  private entries = new Map<number, number>();
+
+  public get(customerId: number): Promise<number | undefined> {
+    return Promise.resolve(this.entries.get(customerId));
+  }
+
+  public set(customerId: number, cardId: number): Promise<void> {
+    this.entries.set(customerId, cardId);
+    return Promise.resolve();
+  }
+}
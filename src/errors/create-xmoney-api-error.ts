@@ -0,0 +1,54 @@
+import { xMoneyApiResponseDto } from '../typings/dtos';
+import { xMoneyResponseCodeEnum } from '../typings/enums';
+import { XMoneyApiError } from './xmoney-api.error';
+import { XMoneyAuthenticationError } from './xmoney-authentication.error';
+import { XMoneyCardDeclinedError } from './xmoney-card-declined.error';
+
+const CARD_DECLINE_CODES: number[] = [
+  xMoneyResponseCodeEnum.SoftDecline,
+  xMoneyResponseCodeEnum.PaymentRequired,
+];
+
+/**
+ * Maps an xMoney error response onto the most specific error class.
+ */
+export const createXMoneyApiError = (
+  body: xMoneyApiResponseDto<unknown> | undefined,
+  status?: number,
+  requestId?: string,
+): XMoneyApiError => {
+  const errors = Array.isArray(body?.error) ? body.error : [];
+  const code = body?.code ?? status;
+  const message = errors[0]?.message || body?.message || `xMoney API error (${status ?? code})`;
+  const details = { status, code, errors, requestId };
+
+  if (
+    status === xMoneyResponseCodeEnum.Unauthorized ||
+    status === xMoneyResponseCodeEnum.Forbidden
+  ) {
+    return new XMoneyAuthenticationError(message, details);
+  }
+
+  if (
+    (status !== undefined && CARD_DECLINE_CODES.includes(status)) ||
+    errors.some((error) => CARD_DECLINE_CODES.includes(error.code))
+  ) {
+    return new XMoneyCardDeclinedError(message, details);
+  }
+
+  return new XMoneyApiError(message, details);
+};
+
+/**
+ * Throws the mapped error unless the api answered with a success code.
+ */
+export const assertXMoneySuccess = (response: xMoneyApiResponseDto<unknown>): void => {
+  if (
+    response.code === xMoneyResponseCodeEnum.Success ||
+    response.code === xMoneyResponseCodeEnum.Created
+  ) {
+    return;
+  }
+
+  throw createXMoneyApiError(response);
+};
@@ -0,0 +1,8 @@
+export * from './xmoney.error';
+export * from './xmoney-api.error';
+export * from './xmoney-authentication.error';
+export * from './xmoney-card-declined.error';
+export * from './xmoney-network.error';
+export * from './xmoney-timeout.error';
+export * from './xmoney-validation.error';
+export * from './webhook-verification.error';
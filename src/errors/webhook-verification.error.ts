@@ -0,0 +1,3 @@
+import { XMoneyError } from './xmoney.error';
+
+export class WebhookVerificationError extends XMoneyError {}
@@ -0,0 +1,28 @@
+import { xMoneyApiErrorDto } from '../typings/dtos';
+import { xMoneyResponseCodeEnum } from '../typings/enums';
+import { XMoneyError } from './xmoney.error';
+
+export class XMoneyApiErrorDetailsDto {
+  status?: number;
+  code?: xMoneyResponseCodeEnum;
+  errors?: xMoneyApiErrorDto[];
+  requestId?: string;
+}
+
+/**
+ * The xMoney API answered with an error response.
+ */
+export class XMoneyApiError extends XMoneyError {
+  public readonly status?: number;
+  public readonly code?: xMoneyResponseCodeEnum;
+  public readonly errors: xMoneyApiErrorDto[];
+  public readonly requestId?: string;
+
+  public constructor(message: string, details: XMoneyApiErrorDetailsDto = {}) {
+    super(message);
+    this.status = details.status;
+    this.code = details.code;
+    this.errors = details.errors ?? [];
+    this.requestId = details.requestId;
+  }
+}
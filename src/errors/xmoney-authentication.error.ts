@@ -0,0 +1,6 @@
+import { XMoneyApiError } from './xmoney-api.error';
+
+/**
+ * The secret key was rejected (HTTP 401 / 403).
+ */
+export class XMoneyAuthenticationError extends XMoneyApiError {}
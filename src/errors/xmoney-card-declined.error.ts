@@ -0,0 +1,11 @@
+import { xMoneyResponseCodeEnum } from '../typings/enums';
+import { XMoneyApiError } from './xmoney-api.error';
+
+/**
+ * The card issuer declined the charge.
+ */
+export class XMoneyCardDeclinedError extends XMoneyApiError {
+  public get isSoftDecline(): boolean {
+    return this.errors.some((error) => error.code === xMoneyResponseCodeEnum.SoftDecline);
+  }
+}
@@ -0,0 +1,13 @@
+import { XMoneyError } from './xmoney.error';
+
+/**
+ * The xMoney API could not be reached or did not answer (DNS, connection reset, timeout).
+ */
+export class XMoneyNetworkError extends XMoneyError {
+  public readonly cause?: unknown;
+
+  public constructor(message: string, cause?: unknown) {
+    super(message);
+    this.cause = cause;
+  }
+}
@@ -0,0 +1,15 @@
+import { OrderDetailsDto } from '../typings/dtos';
+import { XMoneyError } from './xmoney.error';
+
+/**
+ * The order did not reach a final status in time, it may still complete later.
+ */
+export class XMoneyTimeoutError extends XMoneyError {
+  // last order seen while waiting, undefined when the order was never found
+  public readonly order?: OrderDetailsDto;
+
+  public constructor(message: string, order?: OrderDetailsDto) {
+    super(message);
+    this.order = order;
+  }
+}
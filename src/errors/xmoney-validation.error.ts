@@ -0,0 +1,14 @@
+import { ValidationIssueDto } from '../typings/dtos';
+import { XMoneyError } from './xmoney.error';
+
+/**
+ * The input or the configuration is invalid, nothing was sent to xMoney.
+ */
+export class XMoneyValidationError extends XMoneyError {
+  public readonly issues: ValidationIssueDto[];
+
+  public constructor(message: string, issues: ValidationIssueDto[] = []) {
+    super(message);
+    this.issues = issues;
+  }
+}
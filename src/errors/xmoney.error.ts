@@ -0,0 +1,9 @@
+/**
+ * Base class of every error raised by the SDK.
+ */
+export class XMoneyError extends Error {
+  public constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
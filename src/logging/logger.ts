@@ -0,0 +1,20 @@
+export type XMoneyLogFn = (entry: Record<string, unknown>) => void;
+
+/**
+ * Structured logger. Entries are single objects carrying a `message` field,
+ * which pino, winston and console-like loggers all accept.
+ */
+export interface XMoneyLogger {
+  debug: XMoneyLogFn;
+  info: XMoneyLogFn;
+  warn: XMoneyLogFn;
+  error: XMoneyLogFn;
+}
+
+// used when `verbose` is enabled without a logger, only errors are printed as before
+export const verboseConsoleLogger: XMoneyLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: (entry) => console.warn(entry),
+  error: (entry) => console.error(entry),
+};
@@ -0,0 +1,51 @@
+import { redact, REDACTED } from './redact';
+
+describe('redact', () => {
+  it('should replace sensitive fields at any depth', () => {
+    const value = {
+      orderId: 1,
+      headers: { Authorization: 'Bearer abc123' },
+      card: { cardNumber: '4111111111111111', cvv: '123', expiryMonth: '12' },
+      payload: { transactionId: 2 },
+    };
+
+    expect(redact(value)).toEqual({
+      orderId: 1,
+      headers: { Authorization: REDACTED },
+      card: { cardNumber: REDACTED, cvv: REDACTED, expiryMonth: '12' },
+      payload: REDACTED,
+    });
+    expect(value.card.cardNumber).toBe('4111111111111111');
+  });
+
+  it('should mask card numbers inside strings', () => {
+    expect(redact('card 4111 1111 1111 1111 declined')).toBe(`card ${REDACTED} declined`);
+    expect(redact('order 123456 failed')).toBe('order 123456 failed');
+  });
+
+  it('should handle errors and circular references', () => {
+    const value: Record<string, unknown> = { error: new Error('pan 4111111111111111') };
+    value.self = value;
+
+    expect(redact(value)).toEqual({
+      error: { name: 'Error', message: `pan ${REDACTED}` },
+      self: '[Circular]',
+    });
+  });
+
+  it('should keep an object referenced twice outside of a cycle', () => {
+    const headers = { 'x-request-id': 'req-1', Authorization: 'Bearer sk' };
+
+    expect(redact({ request: { headers }, config: { headers } })).toEqual({
+      request: { headers: { 'x-request-id': 'req-1', Authorization: REDACTED } },
+      config: { headers: { 'x-request-id': 'req-1', Authorization: REDACTED } },
+    });
+  });
+
+  it('should keep dates', () => {
+    const createdAt = new Date('2025-01-01T00:00:00Z');
+
+    expect(redact({ createdAt }).createdAt).toBe(createdAt);
+    expect(JSON.stringify(redact({ createdAt }))).toBe('{"createdAt":"2025-01-01T00:00:00.000Z"}');
+  });
+});
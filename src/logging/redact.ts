@@ -0,0 +1,66 @@
+export const REDACTED = '[REDACTED]';
+
+const SENSITIVE_KEYS = new Set(
+  [
+    'secretKey',
+    'authorization',
+    'cardNumber',
+    'cvv',
+    'cvc',
+    'pan',
+    'token',
+    'sessionToken',
+    'password',
+    'nameOnCard',
+    'email',
+    'phone',
+    // encrypted / decrypted webhook payloads and signed checkout payloads
+    'result',
+    'payload',
+    'checksum',
+    'customData',
+    'customFields',
+  ].map((key) => key.toLowerCase()),
+);
+
+// 13 to 19 digits, optionally grouped by spaces or dashes
+const CARD_NUMBER_REGEX = /\b(?:\d[ -]?){12,18}\d\b/g;
+
+/**
+ * Deep copy of `value` with sensitive fields replaced and card numbers masked,
+ * applied to everything handed to loggers and hooks.
+ */
+export const redact = <T>(value: T, ancestors: WeakSet<object> = new WeakSet()): T => {
+  if (typeof value === 'string') {
+    return value.replace(CARD_NUMBER_REGEX, REDACTED) as T;
+  }
+
+  // dates hold no field to redact, loggers serialize them as ISO strings
+  if (!value || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  // only a reference back to an ancestor is a cycle, an object shared by siblings is logged twice
+  if (ancestors.has(value)) {
+    return '[Circular]' as T;
+  }
+  ancestors.add(value);
+
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) => redact(item, ancestors)) as T;
+    }
+
+    if (value instanceof Error) {
+      return { name: value.name, message: redact(value.message, ancestors) } as T;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(item, ancestors);
+    }
+    return result as T;
+  } finally {
+    ancestors.delete(value);
+  }
+};
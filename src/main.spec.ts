@@ -0,0 +1,55 @@
+import xMoney, { XMoneyError, XMoneyValidationError } from './main';
+
+describe('xMoney', () => {
+  describe('forAccount', () => {
+    const xMoneyCheckout = new xMoney({
+      secretKey: 'sk_test_default',
+      publicKey: 'pk_test_default',
+      defaults: { backUrl: 'https://default.example.com/back' },
+      accounts: {
+        shop: {
+          secretKey: 'sk_live_shop',
+          publicKey: 'pk_live_shop',
+          defaults: { backUrl: 'https://shop.example.com/back' },
+        },
+      },
+    });
+    const checkoutInput = {
+      cardTransactionMode: 'authAndCapture' as const,
+      customer: { identifier: 'customer-1' },
+      order: {
+        orderId: 'order-1',
+        type: 'purchase' as const,
+        amount: 10,
+        currency: 'EUR' as const,
+        description: 'Order 1',
+      },
+    };
+
+    it('should sign the checkout with the keys and defaults of the account', () => {
+      const form = xMoneyCheckout.forAccount('shop').getHostedCheckoutForm(checkoutInput);
+      const order = JSON.parse(Buffer.from(form.fields.jsonRequest, 'base64').toString());
+
+      expect(form.action).toBe('https://secure.xmoney.com');
+      expect(order.siteId).toBe('shop');
+      expect(order.backUrl).toBe('https://shop.example.com/back');
+      expect(xMoneyCheckout.initializeCheckout(checkoutInput).payload).not.toBe(
+        form.fields.jsonRequest,
+      );
+    });
+
+    it('should throw for an unknown account', () => {
+      expect(() => xMoneyCheckout.forAccount('other')).toThrow(XMoneyError);
+    });
+
+    it('should reject an account whose keys belong to different environments', () => {
+      expect(
+        () =>
+          new xMoney({
+            secretKey: 'sk_test_default',
+            accounts: { shop: { secretKey: 'sk_test_shop', publicKey: 'pk_live_shop' } },
+          }),
+      ).toThrow(XMoneyValidationError);
+    });
+  });
+});
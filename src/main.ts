@@ -1,80 +1,434 @@
 import {
   ApiResponseDto,
   CardDto,
+  CardListOptionsDto,
   InitInputDto,
+  AccountScopedInput,
   OrderInputDto,
   OrderInputSavedCardDto,
   OrderOutputDto,
   SaveCardInputDto,
   xMoneyOrderDecryptResponseDto,
-  xMoneyCreateOrderResponseDataDto,
+  xMoneyCreateOrderResponseDataRedirectDto,
+  OrderSavedCardOutputDto,
+  OrderConfirmationDto,
+  RedirectFormDto,
+  RedirectFormOptionsDto,
+  WebviewCheckoutOptionsDto,
   OrderDetailsDto,
+  WaitForOrderOptionsDto,
   xMoneyGetJwtResponseDataDto,
+  RefundTransactionInputDto,
+  CaptureTransactionInputDto,
+  TransactionOperationOutputDto,
+  TransactionDetailsDto,
+  TransactionListFiltersDto,
+  OrderListFiltersDto,
+  WebhookHandlersDto,
+  WebhookHandlerOptionsDto,
+  SubscriptionInputDto,
+  SubscriptionDetailsDto,
+  CancelSubscriptionInputDto,
+  CustomerInputDto,
+  UpdateCustomerInputDto,
+  CustomerDetailsDto,
+  CustomerListFiltersDto,
+  xMoneyCreateCustomerResponseDataDto,
 } from './typings/dtos';
 import { OrderService } from './services/order.service';
 import { CardService } from './services/card.service';
 import { CommonService } from './services/common.service';
 import { ThemeEnum } from './typings/enums';
 import { AuthService } from './services/auth.service';
+import { TransactionService } from './services/transaction.service';
+import { SubscriptionService } from './services/subscription.service';
+import { CustomerService } from './services/customer.service';
+import { WebhookHandler } from './webhooks/webhook-handler';
+import { TelemetryAttribute, traceOperation } from './telemetry/telemetry';
+import { XMoneyError } from './errors';
+
+export { WebhookHandler } from './webhooks/webhook-handler';
+export * from './webhooks/adapters';
+export * from './webhooks/dedupe-store';
+export * from './cards/default-card-store';
+export * from './errors';
+export * from './transports';
+export * from './logging';
+export * from './telemetry';
+export * from './validation';
+export * from './webview';
+export { Money } from './utils/money';
+export { getCurrencyMinorUnits, isSupportedCurrency } from './utils/currency';
 
 export default class xMoney {
   private commonService: CommonService;
   private orderService: OrderService;
   private cardService: CardService;
   private authService: AuthService;
+  private transactionService: TransactionService;
+  private subscriptionService: SubscriptionService;
+  private customerService: CustomerService;
+  private accounts = new Map<string, xMoney>();
 
   constructor(initParams: InitInputDto) {
     this.commonService = new CommonService(initParams);
     this.orderService = new OrderService(this.commonService);
     this.cardService = new CardService(this.commonService);
     this.authService = new AuthService(this.commonService);
+    this.transactionService = new TransactionService(this.commonService);
+    this.subscriptionService = new SubscriptionService(this.commonService);
+    this.customerService = new CustomerService(this.commonService);
+
+    // the other sites share the transport, logging and hooks of this instance
+    for (const [name, account] of Object.entries(initParams.accounts ?? {})) {
+      this.accounts.set(
+        name,
+        new xMoney({
+          ...initParams,
+          ...account,
+          // the public key and defaults belong to one site only
+          publicKey: account.publicKey,
+          defaults: account.defaults,
+          accounts: undefined,
+        }),
+      );
+    }
+  }
+
+  // the client of a site configured in `accounts`
+  public forAccount(name: string): xMoney {
+    const account = this.accounts.get(name);
+    if (!account) {
+      throw new XMoneyError(`Unknown xMoney account: ${name}`);
+    }
+    return account;
+  }
+
+  public initializeCheckout(input: AccountScopedInput<OrderInputDto>): OrderOutputDto {
+    return this.trace(
+      'initializeCheckout',
+      () => this.orderService.createOrder(this.commonService.withAccountDefaults(input)),
+      input.order?.orderId,
+    );
+  }
+
+  public initializeCheckoutAsync(
+    input: AccountScopedInput<OrderInputDto>,
+  ): Promise<OrderOutputDto> {
+    return this.trace(
+      'initializeCheckout',
+      () => this.orderService.createOrderAsync(this.commonService.withAccountDefaults(input)),
+      input.order?.orderId,
+    );
+  }
+
+  public initializeHostedCheckout(
+    input: AccountScopedInput<OrderInputDto>,
+    options?: RedirectFormOptionsDto,
+  ): string {
+    return this.trace(
+      'initializeHostedCheckout',
+      () =>
+        this.orderService.createOrderWithHtml(
+          this.commonService.withAccountDefaults(input),
+          options,
+        ),
+      input.order?.orderId,
+    );
+  }
+
+  // the action, method and fields of the hosted checkout form, for frontends that render it themselves
+  public getHostedCheckoutForm(input: AccountScopedInput<OrderInputDto>): RedirectFormDto {
+    return this.trace(
+      'getHostedCheckoutForm',
+      () => this.orderService.getHostedCheckoutForm(this.commonService.withAccountDefaults(input)),
+      input.order?.orderId,
+    );
   }
 
-  public initializeCheckout(input: OrderInputDto): OrderOutputDto {
-    return this.orderService.createOrder(input);
+  public getHostedCheckoutFormAsync(
+    input: AccountScopedInput<OrderInputDto>,
+  ): Promise<RedirectFormDto> {
+    return this.trace(
+      'getHostedCheckoutForm',
+      () =>
+        this.orderService.getHostedCheckoutFormAsync(this.commonService.withAccountDefaults(input)),
+      input.order?.orderId,
+    );
   }
 
-  public initializeHostedCheckout(input: OrderInputDto): string {
-    return this.orderService.createOrderWithHtml(input);
+  public getHostedCheckoutUrl(input: AccountScopedInput<OrderInputDto>): string {
+    return this.trace(
+      'getHostedCheckoutUrl',
+      () => this.orderService.getHostedCheckoutUrl(this.commonService.withAccountDefaults(input)),
+      input.order?.orderId,
+    );
   }
 
-  public async getWebviewCheckoutHtml(
-    input: OrderInputDto,
-    theme: ThemeEnum = ThemeEnum.Dark,
+  public getWebviewCheckoutHtml(
+    input: AccountScopedInput<OrderInputDto>,
+    options: WebviewCheckoutOptionsDto | ThemeEnum = {},
     xMoneyCustomerId?: number, // used to display cards
   ): Promise<string> {
-    let sessionTokenResponse = await this.authService.getSessionToken();
-    let sessionToken = sessionTokenResponse.data?.token ?? undefined;
-    return this.orderService.getWebviewCheckoutHtml(input, theme, sessionToken, xMoneyCustomerId);
+    // the theme and customer id used to be positional arguments
+    const webviewOptions: WebviewCheckoutOptionsDto =
+      typeof options === 'string'
+        ? { theme: options, xMoneyCustomerId }
+        : { xMoneyCustomerId, ...options };
+
+    return this.trace(
+      'getWebviewCheckoutHtml',
+      async () => {
+        let sessionTokenResponse = await this.authService.getSessionToken();
+        let sessionToken = sessionTokenResponse.data?.token ?? undefined;
+        return this.orderService.getWebviewCheckoutHtml(
+          this.commonService.withAccountDefaults(input),
+          webviewOptions,
+          sessionToken,
+        );
+      },
+      input.order?.orderId,
+    );
   }
 
   public decryptOrderResponse(input: string): xMoneyOrderDecryptResponseDto {
-    return this.orderService.decryptOrderResponse(input);
+    return this.trace('decryptOrderResponse', () => this.orderService.decryptOrderResponse(input));
   }
 
-  public initializeCardSave(input: SaveCardInputDto): OrderOutputDto {
-    return this.cardService.saveCard(input);
+  /**
+   * The `...Async` methods use WebCrypto instead of Node `crypto`, so they also run on runtimes
+   * without Node built-ins (Cloudflare Workers, Deno, Vercel Edge).
+   */
+  public decryptOrderResponseAsync(input: string): Promise<xMoneyOrderDecryptResponseDto> {
+    return this.trace('decryptOrderResponse', () =>
+      this.orderService.decryptOrderResponseAsync(input),
+    );
   }
 
-  public getCards(customerId: number): Promise<ApiResponseDto<CardDto[]>> {
-    return this.cardService.getCards(customerId);
+  public createWebhookHandler(
+    handlers?: WebhookHandlersDto,
+    options?: WebhookHandlerOptionsDto,
+  ): WebhookHandler {
+    return new WebhookHandler(this.orderService, handlers, options, this.cardService);
+  }
+
+  public initializeCardSave(input: AccountScopedInput<SaveCardInputDto>): OrderOutputDto {
+    return this.trace(
+      'initializeCardSave',
+      () => this.cardService.saveCard(this.commonService.withAccountDefaults(input)),
+      input.order?.orderId,
+    );
+  }
+
+  public getCards(
+    customerId: number,
+    options: CardListOptionsDto = {},
+  ): Promise<ApiResponseDto<CardDto[]>> {
+    return this.trace('getCards', () => this.cardService.getCards(customerId, options));
+  }
+
+  // the card charged by one-click checkout, see getDefaultCard
+  public setDefaultCard(customerId: number, cardId: number): Promise<void> {
+    return this.trace('setDefaultCard', () => this.cardService.setDefaultCard(customerId, cardId));
+  }
+
+  public getDefaultCard(customerId: number): Promise<CardDto | undefined> {
+    return this.trace('getDefaultCard', () => this.cardService.getDefaultCard(customerId));
   }
 
   public deleteCard(cardId: number): Promise<ApiResponseDto<unknown>> {
-    return this.cardService.deleteCard(cardId);
+    return this.trace('deleteCard', () => this.cardService.deleteCard(cardId));
+  }
+
+  public createCustomer(
+    input: CustomerInputDto,
+  ): Promise<ApiResponseDto<xMoneyCreateCustomerResponseDataDto>> {
+    return this.trace('createCustomer', () => this.customerService.createCustomer(input));
+  }
+
+  public updateCustomer(input: UpdateCustomerInputDto): Promise<void> {
+    return this.trace('updateCustomer', () => this.customerService.updateCustomer(input));
+  }
+
+  public getCustomer(customerId: number): Promise<ApiResponseDto<CustomerDetailsDto>> {
+    return this.trace('getCustomer', () => this.customerService.getCustomer(customerId));
+  }
+
+  // maps your customer.identifier to the xMoney customer id used by getCards and the webview
+  public findCustomerByIdentifier(identifier: string): Promise<CustomerDetailsDto | undefined> {
+    return this.trace('findCustomerByIdentifier', () =>
+      this.customerService.findCustomerByIdentifier(identifier),
+    );
+  }
+
+  public listCustomers(
+    filters?: CustomerListFiltersDto,
+  ): AsyncIterableIterator<CustomerDetailsDto> {
+    return this.customerService.listCustomers(filters);
   }
 
   public getOrder(orderId: string): Promise<ApiResponseDto<OrderDetailsDto>> {
-    return this.orderService.getOrderById(orderId);
+    return this.trace('getOrder', () => this.orderService.getOrderById(orderId), orderId);
+  }
+
+  public listOrders(filters?: OrderListFiltersDto): AsyncIterableIterator<OrderDetailsDto> {
+    return this.orderService.listOrders(filters);
+  }
+
+  public getTransaction(transactionId: number): Promise<ApiResponseDto<TransactionDetailsDto>> {
+    return this.trace('getTransaction', () =>
+      this.transactionService.getTransaction(transactionId),
+    );
+  }
+
+  public listTransactions(
+    filters?: TransactionListFiltersDto,
+  ): AsyncIterableIterator<TransactionDetailsDto> {
+    return this.transactionService.listTransactions(filters);
   }
 
   public getSessionToken(): Promise<ApiResponseDto<xMoneyGetJwtResponseDataDto>> {
-    return this.authService.getSessionToken();
+    return this.trace('getSessionToken', () => this.authService.getSessionToken());
   }
 
   public initializeCheckoutWithSavedCard(
     input: OrderInputSavedCardDto,
-  ): Promise<ApiResponseDto<xMoneyCreateOrderResponseDataDto>> {
-    return this.orderService.createOrderWithSavedCard(input);
+  ): Promise<OrderSavedCardOutputDto> {
+    return this.trace(
+      'initializeCheckoutWithSavedCard',
+      () => this.orderService.createOrderWithSavedCard(input),
+      input.externalOrderId,
+    );
+  }
+
+  // for a saved card charge that requires action, sends the customer to the 3-D Secure page
+  public getThreeDSecureRedirectHtml(
+    redirect: xMoneyCreateOrderResponseDataRedirectDto,
+    options?: RedirectFormOptionsDto,
+  ): string {
+    return this.orderService.getThreeDSecureRedirectHtml(redirect, options);
+  }
+
+  public getThreeDSecureRedirectUrl(redirect: xMoneyCreateOrderResponseDataRedirectDto): string {
+    return this.orderService.getThreeDSecureRedirectUrl(redirect);
+  }
+
+  public confirmOrder(externalOrderId: string): Promise<OrderConfirmationDto> {
+    return this.trace(
+      'confirmOrder',
+      () => this.orderService.confirmOrder(externalOrderId),
+      externalOrderId,
+    );
+  }
+
+  // resolves with the order once it is complete-ok or complete-failed
+  public waitForOrderCompletion(
+    externalOrderId: string,
+    options?: WaitForOrderOptionsDto,
+  ): Promise<OrderDetailsDto> {
+    return this.trace(
+      'waitForOrderCompletion',
+      () => this.orderService.waitForOrderCompletion(externalOrderId, options),
+      externalOrderId,
+    );
+  }
+
+  public refundTransaction(
+    input: RefundTransactionInputDto,
+  ): Promise<TransactionOperationOutputDto> {
+    return this.trace('refundTransaction', () => this.transactionService.refundTransaction(input));
+  }
+
+  // only for orders created with cardTransactionMode 'auth'
+  public captureTransaction(
+    input: CaptureTransactionInputDto,
+  ): Promise<TransactionOperationOutputDto> {
+    return this.trace('captureTransaction', () =>
+      this.transactionService.captureTransaction(input),
+    );
+  }
+
+  public voidTransaction(transactionId: number): Promise<TransactionOperationOutputDto> {
+    return this.trace('voidTransaction', () =>
+      this.transactionService.voidTransaction(transactionId),
+    );
+  }
+
+  public initializeSubscriptionCheckout(
+    input: AccountScopedInput<SubscriptionInputDto>,
+  ): OrderOutputDto {
+    return this.trace(
+      'initializeSubscriptionCheckout',
+      () =>
+        this.subscriptionService.createSubscriptionCheckout(
+          this.commonService.withAccountDefaults(input),
+        ),
+      input.subscription?.orderId,
+    );
+  }
+
+  public initializeSubscriptionCheckoutAsync(
+    input: AccountScopedInput<SubscriptionInputDto>,
+  ): Promise<OrderOutputDto> {
+    return this.trace(
+      'initializeSubscriptionCheckout',
+      () =>
+        this.subscriptionService.createSubscriptionCheckoutAsync(
+          this.commonService.withAccountDefaults(input),
+        ),
+      input.subscription?.orderId,
+    );
+  }
+
+  public getSubscription(externalOrderId: string): Promise<ApiResponseDto<SubscriptionDetailsDto>> {
+    return this.trace(
+      'getSubscription',
+      () => this.subscriptionService.getSubscription(externalOrderId),
+      externalOrderId,
+    );
+  }
+
+  public getSubscriptionNextDueDate(externalOrderId: string): Promise<Date | undefined> {
+    return this.trace(
+      'getSubscriptionNextDueDate',
+      () => this.subscriptionService.getNextDueDate(externalOrderId),
+      externalOrderId,
+    );
+  }
+
+  public listSubscriptions(
+    filters?: Omit<OrderListFiltersDto, 'orderType'>,
+  ): AsyncIterableIterator<SubscriptionDetailsDto> {
+    return this.subscriptionService.listSubscriptions(filters);
+  }
+
+  public cancelSubscription(input: CancelSubscriptionInputDto): Promise<void> {
+    return this.trace('cancelSubscription', () =>
+      this.subscriptionService.cancelSubscription(input),
+    );
+  }
+
+  public pauseSubscription(orderId: number, resumeAt: Date | string): Promise<void> {
+    return this.trace('pauseSubscription', () =>
+      this.subscriptionService.pauseSubscription(orderId, resumeAt),
+    );
+  }
+
+  public resumeSubscription(orderId: number): Promise<void> {
+    return this.trace('resumeSubscription', () =>
+      this.subscriptionService.resumeSubscription(orderId),
+    );
+  }
+
+  // every public operation runs inside an OpenTelemetry span when @opentelemetry/api is installed
+  private trace<T>(operation: string, fn: () => T, externalOrderId?: string): T {
+    return traceOperation(
+      operation,
+      {
+        [TelemetryAttribute.Environment]: this.commonService.getEnvironment(),
+        [TelemetryAttribute.ExternalOrderId]: externalOrderId,
+      },
+      fn,
+    );
   }
 }
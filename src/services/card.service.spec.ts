@@ -0,0 +1,222 @@
+import { CardService } from './card.service';
+import { CommonService } from './common.service';
+import { xMoneyApiService } from './xmoney-api.service';
+import { XMoneyApiError, XMoneyValidationError } from '../errors';
+import { xMoneyResponseCodeEnum } from '../typings/enums';
+import { SaveCardInputDto, xMoneyCardResponseDto } from '../typings/dtos';
+import { createCardResponse } from '../testing/factories';
+
+describe('CardService', () => {
+  let service: CardService;
+  let apiService: xMoneyApiService;
+
+  const mockCards = (cards: xMoneyCardResponseDto[]) =>
+    jest.spyOn(apiService, 'getCardsByxMoneyCustomerId').mockResolvedValue({
+      code: xMoneyResponseCodeEnum.Success,
+      message: 'Success',
+      data: cards,
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.UTC(2025, 0, 15) });
+    service = new CardService(new CommonService({ secretKey: 'sk_test_abc123' }));
+    apiService = (service as any).xMoneyApiService;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('saveCard', () => {
+    const saveCardInput: SaveCardInputDto = {
+      publicKey: 'pk_test_site',
+      backUrl: 'https://example.com/back',
+      customer: { identifier: 'customer-1' },
+      order: { orderId: 'save-card-1', description: 'Save card' },
+    };
+
+    const decodeOrder = (payload: string) => JSON.parse(Buffer.from(payload, 'base64').toString());
+
+    it('should auth 0.10 EUR by default', () => {
+      const order = decodeOrder(service.saveCard(saveCardInput).payload);
+
+      expect(order).toMatchObject({
+        cardTransactionMode: 'auth',
+        saveCard: true,
+        order: { amount: 0.1, currency: 'EUR' },
+      });
+      expect(order.customData).toBeUndefined();
+    });
+
+    it('should verify the card without an amount', () => {
+      const order = decodeOrder(
+        service.saveCard({
+          ...saveCardInput,
+          verification: { mode: 'verifyCard', currency: 'RON' },
+        }).payload,
+      );
+
+      expect(order).toMatchObject({
+        cardTransactionMode: 'verifyCard',
+        order: { amount: 0, currency: 'RON' },
+      });
+      expect(order.verification).toBeUndefined();
+    });
+
+    it('should mark a released verification in the custom data', () => {
+      const order = decodeOrder(
+        service.saveCard({
+          ...saveCardInput,
+          customData: JSON.stringify({ userId: 'u-1' }),
+          verification: {
+            mode: 'authAndCapture',
+            amount: 0.1 + 0.2,
+            currency: 'USD',
+            release: true,
+          },
+        }).payload,
+      );
+
+      expect(order).toMatchObject({
+        cardTransactionMode: 'authAndCapture',
+        order: { amount: 0.3, currency: 'USD' },
+      });
+      expect(JSON.parse(order.customData)).toEqual({
+        userId: 'u-1',
+        xMoneyReleaseCardVerification: 'refund',
+      });
+    });
+
+    it('should reject a verification that cannot be released', () => {
+      expect(() =>
+        service.saveCard({
+          ...saveCardInput,
+          customData: 'plain text',
+          verification: { mode: 'verifyCard', release: true },
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          issues: [
+            { path: 'verification.release', message: 'is only supported by the auth modes' },
+            {
+              path: 'customData',
+              message: 'must be a JSON object when the verification is released',
+            },
+          ],
+        }),
+      );
+      expect(() => service.saveCard({ ...saveCardInput, verification: { mode: 'auth' } })).toThrow(
+        XMoneyValidationError,
+      );
+    });
+  });
+
+  describe('getCards', () => {
+    it('should add the expiry, brand and default fields', async () => {
+      mockCards([createCardResponse({ id: 1, expiryMonth: '01', expiryYear: '25' })]);
+
+      const result = await service.getCards(1);
+
+      expect(result.data).toEqual([
+        expect.objectContaining({
+          id: 1,
+          brand: 'VISA',
+          isExpired: false,
+          expiresWithinDays: 17,
+          isDefault: false,
+        }),
+      ]);
+    });
+
+    it('should only merge entries listed twice, not cards with the same masked number', async () => {
+      mockCards([
+        createCardResponse({ id: 3 }),
+        createCardResponse({ id: 1 }),
+        createCardResponse({ id: 3 }),
+      ]);
+
+      const result = await service.getCards(1);
+
+      expect(result.data?.map((card) => card.id)).toEqual([3, 1]);
+    });
+
+    it('should leave out expired cards unless asked for', async () => {
+      mockCards([
+        createCardResponse({
+          id: 1,
+          cardNumber: '411111******2222',
+          expiryMonth: '12',
+          expiryYear: '2024',
+        }),
+        createCardResponse({ id: 2 }),
+      ]);
+
+      const active = await service.getCards(1);
+      const all = await service.getCards(1, { includeExpired: true });
+
+      expect(active.data?.map((card) => card.id)).toEqual([2]);
+      expect(all.data?.find((card) => card.id === 1)).toMatchObject({
+        isExpired: true,
+        expiresWithinDays: 0,
+      });
+    });
+
+    it('should send the card status filter to the api', async () => {
+      const getCardsSpy = mockCards([createCardResponse({ id: 2 })]);
+
+      await service.getCards(1, { cardStatus: 'active' });
+
+      expect(getCardsSpy).toHaveBeenCalledWith(1, 'active');
+    });
+
+    it('should throw the api error of a failed request', async () => {
+      jest.spyOn(apiService, 'getCardsByxMoneyCustomerId').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Unauthorized,
+        message: 'Unauthorized',
+        error: [
+          { code: xMoneyResponseCodeEnum.Unauthorized, message: 'Unauthorized', type: 'Exception' },
+        ],
+      });
+
+      await expect(service.getCards(1)).rejects.toThrow(XMoneyApiError);
+    });
+  });
+
+  describe('setDefaultCard', () => {
+    it('should mark the default card in later lists', async () => {
+      mockCards([
+        createCardResponse({ id: 1, cardNumber: '411111******2222' }),
+        createCardResponse({ id: 2 }),
+      ]);
+
+      await service.setDefaultCard(1, 1);
+
+      expect((await service.getCards(1)).data?.find((card) => card.isDefault)?.id).toBe(1);
+      expect((await service.getDefaultCard(1))?.id).toBe(1);
+    });
+
+    it('should reject a card of another customer', async () => {
+      mockCards([createCardResponse({ id: 2 })]);
+
+      await expect(service.setDefaultCard(1, 5)).rejects.toThrow(XMoneyValidationError);
+    });
+  });
+
+  describe('getDefaultCard', () => {
+    it('should fall back to the last saved card', async () => {
+      mockCards([
+        createCardResponse({ id: 4, cardNumber: '411111******2222' }),
+        createCardResponse({ id: 7 }),
+      ]);
+
+      expect((await service.getDefaultCard(1))?.id).toBe(7);
+    });
+
+    it('should return undefined for a customer without cards', async () => {
+      mockCards([]);
+
+      expect(await service.getDefaultCard(1)).toBeUndefined();
+    });
+  });
+});
@@ -1,41 +1,76 @@
-import { FiatCurrenciesEnum } from '../typings/enums';
+import { FiatCurrenciesEnum, xMoneyTransactionStatusEnum } from '../typings/enums';
 import {
   ApiResponseDto,
+  CardDto,
+  CardListOptionsDto,
   OrderOutputDto,
   SaveCardInputDto,
   xMoneyApiResponseDto,
   xMoneyCardResponseDto,
   xMoneyOrder,
+  xMoneyOrderDecryptResponseDto,
 } from '../typings/dtos';
 import { CommonService } from './common.service';
 import { xMoneyApiService } from './xmoney-api.service';
+import { TransactionService } from './transaction.service';
+import { createXMoneyApiError } from '../errors/create-xmoney-api-error';
+import { assertValidInput, validateSaveCardInput } from '../validation/validate-input';
+import { XMoneyValidationError } from '../errors';
+import { redact } from '../logging/redact';
+import { Money } from '../utils/money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// customData key of a card save charge to void or refund, see WebhookHandler
+export const CARD_VERIFICATION_RELEASE_KEY = 'xMoneyReleaseCardVerification';
 
 export class CardService {
   private commonService: CommonService;
   private xMoneyApiService: xMoneyApiService;
+  private transactionService: TransactionService;
   private SAVE_CARD_AMOUNT_EUR = 0.1;
 
   public constructor(commonService: CommonService) {
     this.commonService = commonService;
     this.xMoneyApiService = new xMoneyApiService(this.commonService);
+    this.transactionService = new TransactionService(this.commonService);
   }
 
   public saveCard(saveCardInput: SaveCardInputDto): OrderOutputDto {
+    assertValidInput(validateSaveCardInput(saveCardInput), 'Invalid save card input');
     const publicKey = this.commonService.getPublicKey(saveCardInput);
+    const { verification, ...input } = saveCardInput;
+    const mode = verification?.mode ?? 'auth';
+    const currency = verification?.currency ?? FiatCurrenciesEnum.EUR;
+    // verifyCard checks the card without an amount, the auth amount is validated for its currency
+    const amount =
+      mode === 'verifyCard'
+        ? 0
+        : Money.fromDecimal(
+            verification?.amount ?? this.SAVE_CARD_AMOUNT_EUR,
+            currency,
+          ).toDecimal();
 
-    const order: xMoneyOrder = {
+    const order: xMoneyOrder & { customData?: string } = {
       siteId: publicKey,
-      cardTransactionMode: 'auth',
+      cardTransactionMode: mode,
       saveCard: true,
-      ...saveCardInput,
+      ...input,
       order: {
-        ...saveCardInput.order,
+        ...input.order,
         type: 'purchase',
-        amount: this.SAVE_CARD_AMOUNT_EUR,
-        currency: FiatCurrenciesEnum.EUR,
+        amount,
+        currency,
       },
     };
 
+    if (verification?.release && mode !== 'verifyCard') {
+      order.customData = JSON.stringify({
+        ...(input.customData ? JSON.parse(input.customData) : {}),
+        [CARD_VERIFICATION_RELEASE_KEY]: mode === 'auth' ? 'void' : 'refund',
+      });
+    }
+
     const base64Json = this.commonService.getBase64JsonRequest(order);
     const base64Checksum = this.commonService.getBase64Checksum(order);
     return {
@@ -44,26 +79,128 @@ export class CardService {
     };
   }
 
+  // called by the webhook handler after the user handlers, failures are only logged since the
+  // card is saved either way and the charge can still be released by hand
+  public async releaseVerification(payload: xMoneyOrderDecryptResponseDto): Promise<void> {
+    const release = payload.customData?.[CARD_VERIFICATION_RELEASE_KEY];
+    if (
+      (release !== 'void' && release !== 'refund') ||
+      payload.transactionStatus !== xMoneyTransactionStatusEnum.CompleteOk ||
+      !payload.cardId
+    ) {
+      return;
+    }
+
+    try {
+      // a retried IPN must not release the charge twice
+      const transaction = await this.transactionService.getTransaction(payload.transactionId);
+      if (transaction.data?.transactionStatus !== xMoneyTransactionStatusEnum.CompleteOk) {
+        return;
+      }
+
+      if (release === 'void') {
+        await this.transactionService.voidTransaction(payload.transactionId);
+      } else {
+        await this.transactionService.refundTransaction({ transactionId: payload.transactionId });
+      }
+    } catch (error) {
+      this.commonService.logger?.error(
+        redact({
+          message: 'xMoney card verification release failed',
+          transactionId: payload.transactionId,
+          error,
+        }),
+      );
+    }
+  }
+
   public async deleteCard(cardId: number): Promise<xMoneyApiResponseDto<unknown>> {
     return await this.xMoneyApiService.deleteCardById(cardId);
   }
 
   public async getCards(
     xMoneyCustomerId: number,
-  ): Promise<ApiResponseDto<xMoneyCardResponseDto[]>> {
-    const cardsResponse = await this.xMoneyApiService.getCardsByxMoneyCustomerId(xMoneyCustomerId);
+    options: CardListOptionsDto = {},
+  ): Promise<ApiResponseDto<CardDto[]>> {
+    const cardsResponse = await this.xMoneyApiService.getCardsByxMoneyCustomerId(
+      xMoneyCustomerId,
+      options.cardStatus,
+    );
 
     if (cardsResponse.error) {
-      throw new Error(
-        cardsResponse.error?.length ? cardsResponse.error[0].message : 'Unknown error',
-      );
+      throw createXMoneyApiError(cardsResponse);
+    }
+
+    const defaultCardId = await this.commonService.defaultCardStore.get(xMoneyCustomerId);
+    const now = Date.now();
+
+    // the masked number does not identify a card, only entries listed twice are merged
+    const uniqueCards = new Map<number, CardDto>();
+    for (const item of cardsResponse?.data || []) {
+      uniqueCards.set(item.id, this.toCardDto(item, now, defaultCardId));
     }
 
-    const uniqueCards = [
-      ...new Map((cardsResponse?.data || []).map((item) => [item['cardNumber'], item])).values(),
-    ];
+    // the api cannot filter on the expiry date, the expired cards it returned are dropped here
+    const cards = [...uniqueCards.values()].filter(
+      (card) => options.includeExpired || !card.isExpired,
+    );
+    return { data: cards };
+  }
+
+  public async setDefaultCard(xMoneyCustomerId: number, cardId: number): Promise<void> {
+    const cards = await this.getCards(xMoneyCustomerId);
+
+    if (!cards.data?.some((card) => card.id === cardId)) {
+      const message = `Card ${cardId} is not a saved, unexpired card of customer ${xMoneyCustomerId}`;
+      throw new XMoneyValidationError(message, [{ path: 'cardId', message }]);
+    }
+
+    await this.commonService.defaultCardStore.set(xMoneyCustomerId, cardId);
+  }
+
+  // falls back to the last saved card when no default is set or the default was deleted or expired
+  public async getDefaultCard(xMoneyCustomerId: number): Promise<CardDto | undefined> {
+    const cards = (await this.getCards(xMoneyCustomerId)).data ?? [];
+
+    return (
+      cards.find((card) => card.isDefault) ??
+      cards.reduce<CardDto | undefined>(
+        (latest, card) => (!latest || card.id > latest.id ? card : latest),
+        undefined,
+      )
+    );
+  }
+
+  private toCardDto(
+    card: xMoneyCardResponseDto,
+    now: number,
+    defaultCardId: number | undefined,
+  ): CardDto {
+    const expiresAt = this.getExpiresAt(card);
+
+    return {
+      ...card,
+      brand: card.binInfo?.brand || card.type,
+      isExpired: expiresAt !== undefined && expiresAt <= now,
+      expiresWithinDays:
+        expiresAt === undefined ? undefined : Math.max(0, Math.ceil((expiresAt - now) / DAY_MS)),
+      isDefault: card.id === defaultCardId,
+    };
+  }
+
+  // start of the month after the expiry month, in UTC
+  private getExpiresAt(card: xMoneyCardResponseDto): number | undefined {
+    const month = Number(card.expiryMonth);
+    let year = Number(card.expiryYear);
+
+    if (!card.expiryMonth || !card.expiryYear || !(month >= 1 && month <= 12) || !year) {
+      return undefined;
+    }
+    if (card.expiryYear.length === 2) {
+      year += 2000;
+    }
 
-    cardsResponse.data = uniqueCards;
-    return { data: cardsResponse.data };
+    // Date.UTC rolls month 12 over to January of the next year
+    return Date.UTC(year, month, 1);
   }
 }
@@ -1,4 +1,6 @@
 import { CommonService } from './common.service';
+import { SaveCardInputDto } from '../typings/dtos';
+import { XMoneyValidationError } from '../errors';
 
 describe('CommonService', () => {
   let service: CommonService;
@@ -78,4 +80,90 @@ describe('CommonService', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('getPublicKey', () => {
+    it('should reject a public key of another environment than the secret key', () => {
+      const testService = new CommonService({ secretKey: 'sk_test_abc123' });
+
+      expect(testService.getPublicKey({ publicKey: 'pk_test_site1' })).toBe('site1');
+      expect(() => testService.getPublicKey({ publicKey: 'pk_live_site1' })).toThrow(
+        "Public key environment 'live' does not match the secret key environment 'test'",
+      );
+    });
+
+    it('should check the account public key when the service is created', () => {
+      expect(
+        () => new CommonService({ secretKey: 'sk_live_abc123', publicKey: 'pk_test_site1' }),
+      ).toThrow(XMoneyValidationError);
+    });
+  });
+
+  describe('base url overrides', () => {
+    it('should use the configured urls instead of the secret key environment ones', () => {
+      const localService = new CommonService({
+        secretKey: 'sk_live_abc123',
+        apiBaseUrl: 'http://127.0.0.1:4010/api/',
+        checkoutUrl: 'http://127.0.0.1:4010',
+      });
+
+      expect(localService.getApiBaseUrl()).toBe('http://127.0.0.1:4010/api');
+      expect(localService.getUrl()).toBe('http://127.0.0.1:4010');
+      expect(new CommonService({ secretKey: 'sk_live_abc123' }).getUrl()).toBe(
+        'https://secure.xmoney.com',
+      );
+    });
+  });
+
+  describe('withAccountDefaults', () => {
+    it('should fill in the public key and defaults the input leaves out', () => {
+      const accountService = new CommonService({
+        secretKey: 'sk_test_abc123',
+        publicKey: 'pk_test_site1',
+        defaults: {
+          backUrl: 'https://site1.example.com/back',
+          invoiceEmail: 'billing@site1.example.com',
+        },
+      });
+
+      const input = accountService.withAccountDefaults<SaveCardInputDto>({
+        customer: { identifier: 'customer-1' },
+        order: { orderId: 'order-1', description: 'Card save' },
+      });
+      const overridden = accountService.withAccountDefaults<SaveCardInputDto>({
+        publicKey: 'pk_test_site2',
+        backUrl: 'https://site2.example.com/back',
+        customer: { identifier: 'customer-1' },
+        order: { orderId: 'order-1', description: 'Card save' },
+      });
+
+      expect(input.publicKey).toBe('pk_test_site1');
+      expect(input.backUrl).toBe('https://site1.example.com/back');
+      expect(input.invoiceEmail).toBe('billing@site1.example.com');
+      expect(overridden.publicKey).toBe('pk_test_site2');
+      expect(overridden.backUrl).toBe('https://site2.example.com/back');
+    });
+  });
+
+  describe('getBase64ChecksumAsync', () => {
+    it('should match the Node crypto checksum', async () => {
+      const order = {
+        siteId: 'abc123',
+        cardTransactionMode: 'authAndCapture',
+        backUrl: 'https://example.com',
+        customer: { identifier: 'test-customer', firstName: 'Jöhn' },
+        order: {
+          orderId: 'test-order-123',
+          type: 'purchase',
+          amount: 100,
+          currency: 'EUR',
+          description: 'Test order',
+        },
+      } as const;
+
+      expect(await service.getBase64ChecksumAsync(order)).toBe(service.getBase64Checksum(order));
+      expect(service.getBase64JsonRequest(order)).toBe(
+        Buffer.from(JSON.stringify(order)).toString('base64'),
+      );
+    });
+  });
 });
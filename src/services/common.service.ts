@@ -1,5 +1,12 @@
-import * as crypto from 'crypto';
-import { InitInputDto, OrderInputDto, SaveCardInputDto, xMoneyOrder } from '../typings/dtos';
+import {
+  AccountDefaultsDto,
+  AccountScopedInput,
+  BackoffPolicyDto,
+  InitInputDto,
+  OrderInputDto,
+  SaveCardInputDto,
+  xMoneyOrder,
+} from '../typings/dtos';
 import {
   LIVE_ENV,
   LIVE_ENV_API_URL,
@@ -7,12 +14,33 @@ import {
   TEST_ENV,
   TEST_ENV_API_URL,
   TEST_ENV_URL,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_TIMEOUT_MS,
 } from '../typings/constants';
+import { HttpTransport } from '../transports/http-transport';
+import { AxiosHttpTransport } from '../transports/axios-http-transport';
+import { utf8ToBase64 } from '../utils/base64';
+import { XMoneyLogger, verboseConsoleLogger } from '../logging/logger';
+import { getNodeCrypto } from '../utils/node-crypto';
+import { hmacSha512Base64, isWebCryptoAvailable } from '../utils/web-crypto';
+import { XMoneyError, XMoneyValidationError } from '../errors';
+import { DefaultCardStore, InMemoryDefaultCardStore } from '../cards/default-card-store';
 
 export class CommonService {
   public secretKey: string;
+  public publicKey?: string;
+  public defaults: AccountDefaultsDto;
   public verbose: boolean;
+  public timeoutMs: number;
+  public maxRetries: number;
+  public backoff: BackoffPolicyDto;
+  public transport: HttpTransport;
+  public logger?: XMoneyLogger;
+  public defaultCardStore: DefaultCardStore;
+  public hooks: Pick<InitInputDto, 'onRequest' | 'onResponse' | 'onError'>;
   private secretKeyEnv: string | null;
+  private apiBaseUrlOverride?: string;
+  private checkoutUrlOverride?: string;
 
   public hostedCheckoutRedirectUrl: { [key: string]: string } = {
     [TEST_ENV]: TEST_ENV_URL,
@@ -27,20 +55,59 @@ export class CommonService {
   public constructor(initParams: InitInputDto) {
     this.secretKey = this.extractKeyFromSecretKey(initParams.secretKey);
     this.secretKeyEnv = this.extractEnvFromSecretKey(initParams.secretKey);
+    this.publicKey = initParams.publicKey;
+    this.defaults = initParams.defaults ?? {};
+    this.apiBaseUrlOverride = initParams.apiBaseUrl?.replace(/\/+$/, '');
+    this.checkoutUrlOverride = initParams.checkoutUrl?.replace(/\/+$/, '');
     this.verbose = initParams.verbose ?? false;
+    this.timeoutMs = initParams.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = initParams.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.backoff = initParams.backoff ?? {};
+    this.transport = initParams.transport ?? new AxiosHttpTransport();
+    this.logger = initParams.logger ?? (this.verbose ? verboseConsoleLogger : undefined);
+    this.defaultCardStore = initParams.defaultCardStore ?? new InMemoryDefaultCardStore();
+    this.hooks = {
+      onRequest: initParams.onRequest,
+      onResponse: initParams.onResponse,
+      onError: initParams.onError,
+    };
+
+    // fail on a misconfigured account instead of on its first checkout
+    if (this.publicKey) {
+      this.getPublicKey({ publicKey: this.publicKey });
+    }
   }
 
-  public getPublicKey(input: OrderInputDto | SaveCardInputDto): string {
+  public getPublicKey(input: Pick<OrderInputDto | SaveCardInputDto, 'publicKey'>): string {
     const publicKey = input.publicKey;
 
     const key = this.extractKeyFromPublicKey(publicKey);
     if (!key) {
-      throw new Error('Invalid public key format. Expected format: pk_<env>_key');
+      const message = 'Invalid public key format. Expected format: pk_<env>_key';
+      throw new XMoneyValidationError(message, [{ path: 'publicKey', message }]);
+    }
+
+    // a checksum made with the secret key of another environment is rejected by the checkout
+    const env = this.extractEnvFromPublicKey(publicKey);
+    if (this.secretKeyEnv && env !== this.secretKeyEnv) {
+      const message = `Public key environment '${env}' does not match the secret key environment '${this.secretKeyEnv}'`;
+      throw new XMoneyValidationError(message, [{ path: 'publicKey', message }]);
     }
 
     return key;
   }
 
+  public withAccountDefaults<T extends { publicKey: string; backUrl: string }>(
+    input: AccountScopedInput<T>,
+  ): T {
+    return {
+      ...this.defaults,
+      ...input,
+      publicKey: input?.publicKey ?? this.publicKey,
+      backUrl: input?.backUrl ?? this.defaults.backUrl,
+    } as T;
+  }
+
   public getPrivateKey(): string {
     return this.secretKey;
   }
@@ -48,28 +115,40 @@ export class CommonService {
   public getSecretKeyEnv(): string {
     const env = this.secretKeyEnv;
     if (!env) {
-      throw new Error('Cannot detect url based on secret key');
+      const message = 'Cannot detect url based on secret key';
+      throw new XMoneyValidationError(message, [{ path: 'secretKey', message }]);
     }
 
     return env;
   }
 
+  // same as getSecretKeyEnv without throwing, used to label telemetry
+  public getEnvironment(): string | undefined {
+    return this.secretKeyEnv ?? undefined;
+  }
+
   public getUrl(): string {
+    if (this.checkoutUrlOverride) {
+      return this.checkoutUrlOverride;
+    }
     const env = this.getSecretKeyEnv();
     const envUrl = this.hostedCheckoutRedirectUrl[env];
 
     if (!envUrl) {
-      throw new Error('HostedCheckoutRedirect url missing');
+      throw new XMoneyError('HostedCheckoutRedirect url missing');
     }
     return envUrl;
   }
 
   public getApiBaseUrl(): string {
+    if (this.apiBaseUrlOverride) {
+      return this.apiBaseUrlOverride;
+    }
     const env = this.getSecretKeyEnv();
     const envUrl = this.apiUrl[env];
 
     if (!envUrl) {
-      throw new Error('ApiUrl url missing');
+      throw new XMoneyError('ApiUrl url missing');
     }
     return envUrl;
   }
@@ -77,16 +156,24 @@ export class CommonService {
   public getBase64JsonRequest(orderData: xMoneyOrder): string {
     const jsonText = JSON.stringify(orderData);
 
-    return Buffer.alloc(Buffer.byteLength(jsonText), jsonText).toString('base64');
+    return utf8ToBase64(jsonText);
   }
 
   public getBase64Checksum(orderData: xMoneyOrder): string {
-    const hmacSha512 = crypto.createHmac('sha512', this.secretKey);
+    const hmacSha512 = getNodeCrypto().createHmac('sha512', this.secretKey);
     hmacSha512.update(JSON.stringify(orderData));
 
     return hmacSha512.digest('base64');
   }
 
+  public async getBase64ChecksumAsync(orderData: xMoneyOrder): Promise<string> {
+    if (!isWebCryptoAvailable()) {
+      return this.getBase64Checksum(orderData);
+    }
+
+    return await hmacSha512Base64(this.secretKey, JSON.stringify(orderData));
+  }
+
   private extractKeyFromPublicKey(publicKey: string): string | null {
     const envPattern = `${TEST_ENV}|${LIVE_ENV}`;
     const regexp = new RegExp(`^pk_(${envPattern})_(.+)$`);
@@ -94,6 +181,13 @@ export class CommonService {
     return match ? match[2] : null;
   }
 
+  private extractEnvFromPublicKey(publicKey: string): string | null {
+    const envPattern = `${TEST_ENV}|${LIVE_ENV}`;
+    const regexp = new RegExp(`^pk_(${envPattern})_(.+)$`);
+    const match = publicKey.match(regexp);
+    return match ? match[1] : null;
+  }
+
   private extractKeyFromSecretKey(secretKey: string): string {
     const regexp = this.getSecretKeyRegex();
     const match = secretKey.match(regexp);
@@ -0,0 +1,75 @@
+import { CustomerService } from './customer.service';
+import { CommonService } from './common.service';
+import { xMoneyApiService } from './xmoney-api.service';
+import { XMoneyApiError, XMoneyValidationError } from '../errors';
+import { xMoneyResponseCodeEnum } from '../typings/enums';
+import { createCustomerResponse } from '../testing/factories';
+
+describe('CustomerService', () => {
+  let service: CustomerService;
+  let apiService: xMoneyApiService;
+
+  beforeEach(() => {
+    service = new CustomerService(new CommonService({ secretKey: 'sk_test_abc123' }));
+    apiService = (service as any).apiService;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createCustomer', () => {
+    it('should return the id of the new customer', async () => {
+      const createSpy = jest.spyOn(apiService, 'createCustomer').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Created,
+        message: 'Created',
+        data: { id: 42 },
+      });
+
+      const result = await service.createCustomer({ identifier: 'user-1', email: 'a@b.co' });
+
+      expect(result.data?.id).toBe(42);
+      expect(createSpy).toHaveBeenCalledWith({ identifier: 'user-1', email: 'a@b.co' });
+    });
+
+    it('should not call the api for an invalid customer', async () => {
+      const createSpy = jest.spyOn(apiService, 'createCustomer');
+
+      await expect(service.createCustomer({ identifier: '', email: 'invalid' })).rejects.toThrow(
+        XMoneyValidationError,
+      );
+      expect(createSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateCustomer', () => {
+    it('should throw the api error of a failed update', async () => {
+      jest.spyOn(apiService, 'updateCustomer').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.NotFound,
+        message: 'Customer not found',
+      });
+
+      await expect(service.updateCustomer({ customerId: 7, city: 'Cluj' })).rejects.toThrow(
+        XMoneyApiError,
+      );
+    });
+  });
+
+  describe('findCustomerByIdentifier', () => {
+    it('should only return an exact identifier match', async () => {
+      const getCustomersSpy = jest.spyOn(apiService, 'getCustomers').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+        data: [
+          createCustomerResponse({ id: 1, identifier: 'user-10' }),
+          createCustomerResponse({ id: 2, identifier: 'user-1' }),
+        ],
+        pagination: { currentPageNumber: 0, perPage: 100, pageCount: 1, totalItemCount: 2 },
+      });
+
+      expect((await service.findCustomerByIdentifier('user-1'))?.id).toBe(2);
+      expect(await service.findCustomerByIdentifier('user-2')).toBeUndefined();
+      expect(getCustomersSpy).toHaveBeenCalledWith({ identifier: 'user-1' }, 0, 100);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  ApiResponseDto,
+  CustomerDetailsDto,
+  CustomerInputDto,
+  CustomerListFiltersDto,
+  UpdateCustomerInputDto,
+  xMoneyCreateCustomerResponseDataDto,
+} from '../typings/dtos';
+import { CommonService } from './common.service';
+import { xMoneyApiService } from './xmoney-api.service';
+import { paginate } from '../utils/paginate';
+import { assertXMoneySuccess } from '../errors/create-xmoney-api-error';
+import {
+  assertValidInput,
+  validateCustomerInput,
+  validateUpdateCustomerInput,
+} from '../validation/validate-input';
+
+export class CustomerService {
+  private commonService: CommonService;
+  private apiService: xMoneyApiService;
+
+  public constructor(commonService: CommonService) {
+    this.commonService = commonService;
+    this.apiService = new xMoneyApiService(this.commonService);
+  }
+
+  public async createCustomer(
+    input: CustomerInputDto,
+  ): Promise<ApiResponseDto<xMoneyCreateCustomerResponseDataDto>> {
+    assertValidInput(validateCustomerInput(input), 'Invalid customer input');
+
+    const response = await this.apiService.createCustomer(input);
+    assertXMoneySuccess(response);
+
+    return { data: response.data };
+  }
+
+  public async updateCustomer(input: UpdateCustomerInputDto): Promise<void> {
+    assertValidInput(validateUpdateCustomerInput(input), 'Invalid customer input');
+
+    const response = await this.apiService.updateCustomer(input);
+    assertXMoneySuccess(response);
+  }
+
+  public async getCustomer(customerId: number): Promise<ApiResponseDto<CustomerDetailsDto>> {
+    const response = await this.apiService.getCustomerById(customerId);
+    assertXMoneySuccess(response);
+
+    return { data: response.data };
+  }
+
+  // the identifier filter of the api may match partially, only an exact match is returned
+  public async findCustomerByIdentifier(
+    identifier: string,
+  ): Promise<CustomerDetailsDto | undefined> {
+    for await (const customer of this.listCustomers({ identifier })) {
+      if (customer.identifier === identifier) {
+        return customer;
+      }
+    }
+    return undefined;
+  }
+
+  public listCustomers(
+    filters: CustomerListFiltersDto = {},
+  ): AsyncGenerator<CustomerDetailsDto, void, undefined> {
+    return paginate(async (page, perPage) => {
+      const response = await this.apiService.getCustomers(filters, page, perPage);
+      assertXMoneySuccess(response);
+      return response;
+    }, filters.perPage);
+  }
+}
@@ -1,6 +1,17 @@
 import { OrderService } from './order.service';
 import { OrderInputDto } from '../typings/dtos/order-input.dto';
+import { HttpRequestDto } from '../typings/dtos';
 import { CommonService } from './common.service';
+import { XMoneyCardDeclinedError, XMoneyTimeoutError, XMoneyValidationError } from '../errors';
+import {
+  FiatCurrenciesEnum,
+  xMoneyCardTransactionModeEnum,
+  xMoneyFormMethodEnum,
+  xMoneyOrderStatusEnum,
+  xMoneyOrderTypeEnum,
+  xMoneyResponseCodeEnum,
+  xMoneyTransactionMethodEnum,
+} from '../typings/enums';
 
 describe('OrderService', () => {
   let service: OrderService;
@@ -65,6 +76,22 @@ describe('OrderService', () => {
       }).toThrow('Invalid public key format. Expected format: pk_<env>_key');
     });
 
+    it('should throw XMoneyValidationError listing every invalid field', () => {
+      let error: XMoneyValidationError | undefined;
+      try {
+        service.createOrder({
+          ...mockOrderInput,
+          backUrl: '',
+          order: { ...mockOrderInput.order, amount: -5 },
+        });
+      } catch (e: any) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(XMoneyValidationError);
+      expect(error?.issues.map((issue) => issue.path)).toEqual(['backUrl', 'order.amount']);
+    });
+
     it('should set saveCard to false when not provided', () => {
       const orderInputWithoutSaveCard = { ...mockOrderInput };
       delete orderInputWithoutSaveCard.saveCard;
@@ -91,4 +118,330 @@ describe('OrderService', () => {
       expect(typeof result.checksum).toBe('string');
     });
   });
+
+  describe('getWebviewCheckoutHtml', () => {
+    it('should load the payment form script of the secret key environment', async () => {
+      const liveService = new OrderService(new CommonService({ secretKey: 'sk_live_abc123' }));
+
+      const html = await liveService.getWebviewCheckoutHtml(
+        { ...mockOrderInput, publicKey: 'pk_live_abc123' },
+        { sdkVersion: '1.2.3' },
+      );
+
+      expect(html).toContain('<script src="https://secure.xmoney.com/sdk/1.2.3/xmoney.js">');
+      await expect(
+        liveService.getWebviewCheckoutHtml(mockOrderInput, { sdkVersion: '1"><script>' }),
+      ).rejects.toThrow('Invalid sdkVersion');
+    });
+
+    it('should escape every interpolated value', async () => {
+      const testService = new OrderService(new CommonService({ secretKey: 'sk_test_abc123' }));
+
+      const html = await testService.getWebviewCheckoutHtml(
+        mockOrderInput,
+        {
+          nonce: 'abc"123',
+          locale: 'ro',
+          customCss: '</style><script>alert(1)</script>',
+          appearanceVariables: { colorPrimary: '</script>' },
+        },
+        'token"</script>',
+      );
+
+      expect(html).toContain('<script nonce="abc&quot;123">');
+      expect(html).toContain('<html lang="ro">');
+      expect(html).not.toContain('</style><script>alert(1)');
+      expect(html).toContain('"sessionToken":"token\\"\\u003c/script\\u003e"');
+      expect(html).toContain('"colorPrimary":"\\u003c/script\\u003e"');
+      expect(html).not.toContain('undefined');
+    });
+  });
+
+  describe('createOrderWithHtml', () => {
+    const testService = new OrderService(new CommonService({ secretKey: 'sk_test_abc123' }));
+
+    it('should build the hosted checkout form of the secret key environment', () => {
+      const form = testService.getHostedCheckoutForm(mockOrderInput);
+      const order = testService.createOrder(mockOrderInput);
+
+      expect(form).toEqual({
+        action: 'https://secure-stage.xmoney.com',
+        method: 'post',
+        fields: { jsonRequest: order.payload, checksum: order.checksum },
+      });
+    });
+
+    it('should submit the form with a nonce and without evaluating strings', () => {
+      const html = testService.createOrderWithHtml(mockOrderInput, { nonce: 'abc"123' });
+      const { fields } = testService.getHostedCheckoutForm(mockOrderInput);
+
+      expect(html).toContain('<form id="checkoutForm" name="checkoutForm"');
+      expect(html).toContain(`<input type="hidden" name="checksum" value="${fields.checksum}">`);
+      expect(html).toContain('<script type="text/javascript" nonce="abc&quot;123">');
+      expect(html).toContain('document.forms["checkoutForm"].submit();');
+      expect(html).not.toContain('setTimeout');
+    });
+
+    it('should render a visible button in noScript mode', () => {
+      const html = testService.createOrderWithHtml(mockOrderInput, {
+        noScript: true,
+        submitLabel: 'Pay <now>',
+      });
+
+      expect(html).not.toContain('<script');
+      expect(html).toContain('<button type="submit">Pay &lt;now&gt;</button>');
+      expect(html).not.toContain('<noscript>');
+    });
+
+    it('should move the fields to the query string of the hosted checkout url', () => {
+      const url = new URL(testService.getHostedCheckoutUrl(mockOrderInput));
+      const order = testService.createOrder(mockOrderInput);
+
+      expect(url.origin).toBe('https://secure-stage.xmoney.com');
+      expect(url.searchParams.get('jsonRequest')).toBe(order.payload);
+      expect(url.searchParams.get('checksum')).toBe(order.checksum);
+    });
+  });
+
+  describe('createOrderWithSavedCard', () => {
+    const savedCardInput = {
+      customerId: 1,
+      ip: '127.0.0.1',
+      amount: 10,
+      currency: FiatCurrenciesEnum.EUR,
+      externalOrderId: 'test-order-123',
+      orderType: xMoneyOrderTypeEnum.Purchase,
+      transactionMethod: xMoneyTransactionMethodEnum.Card,
+      cardTransactionMode: xMoneyCardTransactionModeEnum.Auth_And_Capture,
+      cardId: 2,
+    };
+    const softDecline = () =>
+      new XMoneyCardDeclinedError('Soft decline', {
+        status: 400,
+        errors: [
+          { code: xMoneyResponseCodeEnum.SoftDecline, message: 'Soft decline', type: 'Exception' },
+        ],
+      });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should retry once with isSoftDecline after a soft decline', async () => {
+      const data = { orderId: 1, transactionId: 2, cardId: 2 };
+      const createOrderSpy = jest
+        .spyOn((service as any).apiService, 'createOrder')
+        .mockRejectedValueOnce(softDecline())
+        .mockResolvedValueOnce({ code: xMoneyResponseCodeEnum.Created, message: 'Created', data });
+
+      const result = await service.createOrderWithSavedCard(savedCardInput);
+
+      expect(result).toEqual({ status: 'completed', isThreeDSecure: false, data });
+      expect(createOrderSpy).toHaveBeenCalledTimes(2);
+      expect(createOrderSpy).toHaveBeenLastCalledWith({
+        ...savedCardInput,
+        transactionOption: { isSoftDecline: true },
+      });
+    });
+
+    it('should keep a JSON string transaction option when retrying a soft decline', async () => {
+      const data = { orderId: 1, transactionId: 2, cardId: 2 };
+      const createOrderSpy = jest
+        .spyOn((service as any).apiService, 'createOrder')
+        .mockRejectedValueOnce(softDecline())
+        .mockResolvedValueOnce({ code: xMoneyResponseCodeEnum.Created, message: 'Created', data });
+
+      await service.createOrderWithSavedCard({
+        ...savedCardInput,
+        transactionOption: '{"isMit":"yes"}',
+      });
+
+      expect(createOrderSpy).toHaveBeenLastCalledWith({
+        ...savedCardInput,
+        transactionOption: JSON.stringify({ isMit: 'yes', isSoftDecline: 'yes' }),
+      });
+    });
+
+    it('should keep the merchant initiated options when retrying a soft decline', async () => {
+      const data = { orderId: 1, transactionId: 2, cardId: 2 };
+      const transactionOption = {
+        initiator: 'merchant',
+        storedCredentialReason: 'unscheduled',
+        originalTransactionId: 9,
+      } as const;
+      const createOrderSpy = jest
+        .spyOn((service as any).apiService, 'createOrder')
+        .mockRejectedValueOnce(softDecline())
+        .mockResolvedValueOnce({ code: xMoneyResponseCodeEnum.Created, message: 'Created', data });
+
+      await service.createOrderWithSavedCard({ ...savedCardInput, transactionOption });
+
+      expect(createOrderSpy).toHaveBeenLastCalledWith({
+        ...savedCardInput,
+        transactionOption: { ...transactionOption, isSoftDecline: true },
+      });
+    });
+
+    it('should rethrow hard declines without retrying', async () => {
+      const hardDecline = new XMoneyCardDeclinedError('Insufficient funds', { status: 402 });
+      const createOrderSpy = jest
+        .spyOn((service as any).apiService, 'createOrder')
+        .mockRejectedValue(hardDecline);
+
+      await expect(service.createOrderWithSavedCard(savedCardInput)).rejects.toBe(hardDecline);
+      expect(createOrderSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require action when the api asks for a 3-D Secure redirect', async () => {
+      const redirect = {
+        url: 'https://acs.example.com/challenge',
+        formMethod: xMoneyFormMethodEnum.Post,
+        params: { PaReq: 'abc"def', TermUrl: 'https://example.com/return' },
+      };
+      jest.spyOn((service as any).apiService, 'createOrder').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Created,
+        message: 'Created',
+        data: { orderId: 1, transactionId: 2, cardId: 2, isRedirect: true, is3d: 1, redirect },
+      });
+
+      const result = await service.createOrderWithSavedCard(savedCardInput);
+
+      expect(result.status).toBe('requires_action');
+      expect(result.isThreeDSecure).toBe(true);
+      if (result.status === 'requires_action') {
+        const html = service.getThreeDSecureRedirectHtml(result.redirect);
+        expect(html).toContain('action="https://acs.example.com/challenge" method="post"');
+        expect(html).toContain('name="PaReq" value="abc&quot;def"');
+        expect(() => service.getThreeDSecureRedirectUrl(result.redirect)).toThrow(
+          'The 3-D Secure page expects a POST form',
+        );
+      }
+    });
+  });
+
+  describe('getThreeDSecureRedirectUrl', () => {
+    it('should move the params of a GET redirect to the query string', () => {
+      const url = service.getThreeDSecureRedirectUrl({
+        url: 'https://acs.example.com/challenge?lang=en',
+        formMethod: xMoneyFormMethodEnum.Get,
+        params: { id: 'a b' },
+      });
+
+      expect(url).toBe('https://acs.example.com/challenge?lang=en&id=a+b');
+    });
+  });
+
+  describe('confirmOrder', () => {
+    it('should map the order status once the customer is back', async () => {
+      const getOrderSpy = jest.spyOn((service as any).apiService, 'getOrderByExternalId');
+      const order = (orderStatus: xMoneyOrderStatusEnum) => ({
+        code: xMoneyResponseCodeEnum.Success,
+        data: [{ id: 1, externalOrderId: 'test-order-123', orderStatus }],
+      });
+      getOrderSpy
+        .mockResolvedValueOnce(order(xMoneyOrderStatusEnum.CompleteOk))
+        .mockResolvedValueOnce(order(xMoneyOrderStatusEnum.CompleteFailed))
+        .mockResolvedValueOnce(order(xMoneyOrderStatusEnum.InProgress));
+
+      expect((await service.confirmOrder('test-order-123')).status).toBe('completed');
+      expect((await service.confirmOrder('test-order-123')).status).toBe('failed');
+      expect((await service.confirmOrder('test-order-123')).status).toBe('pending');
+
+      getOrderSpy.mockRestore();
+    });
+  });
+
+  describe('waitForOrderCompletion', () => {
+    const order = (orderStatus: xMoneyOrderStatusEnum) => ({
+      code: xMoneyResponseCodeEnum.Success,
+      message: 'Success',
+      data: [{ id: 1, externalOrderId: 'test-order-123', orderStatus }],
+    });
+    const notFound = { code: xMoneyResponseCodeEnum.Success, message: 'Success', data: [] };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should poll until the order is complete', async () => {
+      const getOrderSpy = jest
+        .spyOn((service as any).apiService, 'getOrderByExternalId')
+        .mockResolvedValueOnce(notFound)
+        .mockResolvedValueOnce(order(xMoneyOrderStatusEnum.InProgress))
+        .mockResolvedValueOnce(order(xMoneyOrderStatusEnum.CompleteFailed));
+
+      const result = await service.waitForOrderCompletion('test-order-123', { intervalMs: 1 });
+
+      expect(result.orderStatus).toBe('complete-failed');
+      expect(getOrderSpy).toHaveBeenCalledTimes(3);
+    });
+
+    it('should throw a timeout error with the last seen order', async () => {
+      jest
+        .spyOn((service as any).apiService, 'getOrderByExternalId')
+        .mockResolvedValue(order(xMoneyOrderStatusEnum.InProgress));
+
+      const error = await service
+        .waitForOrderCompletion('test-order-123', { timeoutMs: 20, intervalMs: 5 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(XMoneyTimeoutError);
+      expect(error.order.orderStatus).toBe(xMoneyOrderStatusEnum.InProgress);
+    });
+
+    it('should stop polling once the signal is aborted', async () => {
+      const getOrderSpy = jest
+        .spyOn((service as any).apiService, 'getOrderByExternalId')
+        .mockResolvedValue(order(xMoneyOrderStatusEnum.InProgress));
+      const controller = new AbortController();
+      const reason = new Error('customer left');
+
+      const waiting = service.waitForOrderCompletion('test-order-123', {
+        intervalMs: 1000,
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(reason), 10);
+
+      await expect(waiting).rejects.toBe(reason);
+      expect(getOrderSpy).toHaveBeenCalledTimes(1);
+    });
+
+    describe('with a poll that never answers', () => {
+      const transport = {
+        request: jest.fn((_request: HttpRequestDto) => new Promise<never>(() => {})),
+      };
+      let hangingService: OrderService;
+
+      beforeEach(() => {
+        hangingService = new OrderService(
+          new CommonService({ secretKey: 'sk_test_secret-key', transport }),
+        );
+      });
+
+      it('should time out while the poll is still in flight', async () => {
+        const startedAt = Date.now();
+
+        const error = await hangingService
+          .waitForOrderCompletion('test-order-123', { timeoutMs: 50 })
+          .catch((e) => e);
+
+        expect(error).toBeInstanceOf(XMoneyTimeoutError);
+        expect(Date.now() - startedAt).toBeLessThan(1000);
+        expect(transport.request).toHaveBeenCalledTimes(1);
+        expect(transport.request.mock.calls[0][0].signal?.aborted).toBe(true);
+      });
+
+      it('should abort the in-flight poll with the signal', async () => {
+        const controller = new AbortController();
+        const reason = new Error('customer left');
+
+        const waiting = hangingService.waitForOrderCompletion('test-order-123', {
+          signal: controller.signal,
+        });
+        setTimeout(() => controller.abort(reason), 10);
+
+        await expect(waiting).rejects.toBe(reason);
+      });
+    });
+  });
 });
@@ -1,18 +1,64 @@
-import * as crypto from 'crypto';
 import { OrderInputDto } from '../typings/dtos/order-input.dto';
 import {
   ApiResponseDto,
+  OrderConfirmationDto,
+  OrderDetailsDto,
   OrderInputSavedCardDto,
+  OrderSavedCardOutputDto,
+  WebviewCheckoutOptionsDto,
+  OrderListFiltersDto,
   OrderOutputDto,
+  RedirectFormDto,
+  RedirectFormOptionsDto,
+  WaitForOrderOptionsDto,
+  xMoneyApiResponseDto,
   xMoneyCreateOrderResponseDataDto,
+  xMoneyCreateOrderResponseDataRedirectDto,
   xMoneyGetOrderResponseDataDto,
   xMoneyOrder,
   xMoneyOrderDecryptResponseDto,
 } from '../typings/dtos';
 import { CommonService } from './common.service';
 import { xMoneyApiService } from './xmoney-api.service';
-import { ThemeEnum, xMoneyResponseCodeEnum } from '../typings/enums';
+import {
+  DEFAULT_ORDER_POLL_INTERVAL_MS,
+  DEFAULT_ORDER_POLL_MAX_INTERVAL_MS,
+  DEFAULT_ORDER_WAIT_TIMEOUT_MS,
+  DEFAULT_WEBVIEW_SDK_VERSION,
+} from '../typings/constants';
+import {
+  xMoneyFormMethodEnum,
+  xMoneyOrderStatusEnum,
+  xMoneyResponseCodeEnum,
+} from '../typings/enums';
 import { getWebviewCheckoutHtmlString } from '../utils/get-webview-checkout-html-string';
+import { paginate } from '../utils/paginate';
+import {
+  WebhookVerificationError,
+  XMoneyApiError,
+  XMoneyCardDeclinedError,
+  XMoneyError,
+  XMoneyTimeoutError,
+  XMoneyValidationError,
+} from '../errors';
+import { assertXMoneySuccess, createXMoneyApiError } from '../errors/create-xmoney-api-error';
+import { assertOrderDecryptResponse } from '../webhooks/assert-order-decrypt-response';
+import { base64ToBytes } from '../utils/base64';
+import { getNodeCrypto } from '../utils/node-crypto';
+import { decryptAes256Cbc, isWebCryptoAvailable } from '../utils/web-crypto';
+import { Money } from '../utils/money';
+import { getBackoffDelay, sleep } from '../utils/backoff';
+import { getAutoSubmitFormHtml, getRedirectUrl } from '../utils/redirect-form';
+import { recordDecline, setActiveSpanAttributes, TelemetryAttribute } from '../telemetry/telemetry';
+import {
+  assertValidInput,
+  validateOrderInput,
+  validateSavedCardOrderInput,
+} from '../validation/validate-input';
+
+const AES_IV_LENGTH = 16;
+const BASE64_REGEX = /^[A-Za-z0-9+/]+={0,2}$/;
+const SDK_VERSION_REGEX = /^\d+\.\d+\.\d+$/;
 
 export class OrderService {
   private commonService: CommonService;
@@ -24,120 +70,393 @@ export class OrderService {
   }
 
   public createOrder(orderInput: OrderInputDto): OrderOutputDto {
+    const order = this.buildOrder(orderInput);
+
+    const base64Json = this.commonService.getBase64JsonRequest(order);
+    const base64Checksum = this.commonService.getBase64Checksum(order);
+    return {
+      payload: base64Json,
+      checksum: base64Checksum,
+    };
+  }
+
+  public async createOrderAsync(orderInput: OrderInputDto): Promise<OrderOutputDto> {
+    const order = this.buildOrder(orderInput);
+
+    const base64Json = this.commonService.getBase64JsonRequest(order);
+    const base64Checksum = await this.commonService.getBase64ChecksumAsync(order);
+    return {
+      payload: base64Json,
+      checksum: base64Checksum,
+    };
+  }
+
+  private buildOrder(orderInput: OrderInputDto): xMoneyOrder {
+    assertValidInput(validateOrderInput(orderInput), 'Invalid order input');
     const publicKey = this.commonService.getPublicKey(orderInput);
 
+    const { amount, currency, trialAmount } = orderInput.order;
     const order: xMoneyOrder = {
       siteId: publicKey,
       ...orderInput,
+      order: {
+        ...orderInput.order,
+        // removes floating point noise such as 0.30000000000000004 before signing
+        amount: Money.fromDecimal(amount, currency).toDecimal(),
+        ...(trialAmount != null && {
+          trialAmount: Money.fromDecimal(trialAmount, currency).toDecimal(),
+        }),
+      },
     };
     if (!order.saveCard) {
       order.saveCard = false;
     }
-    const base64Json = this.commonService.getBase64JsonRequest(order);
-    const base64Checksum = this.commonService.getBase64Checksum(order);
-    return {
-      payload: base64Json,
-      checksum: base64Checksum,
-    };
+    return order;
   }
 
-  public createOrderWithHtml(orderInput: OrderInputDto) {
-    const envUrl = this.commonService.getUrl();
+  public getHostedCheckoutForm(orderInput: OrderInputDto): RedirectFormDto {
+    return this.getHostedCheckoutFormFromOrder(this.createOrder(orderInput));
+  }
 
-    const order = this.createOrder(orderInput);
+  public async getHostedCheckoutFormAsync(orderInput: OrderInputDto): Promise<RedirectFormDto> {
+    return this.getHostedCheckoutFormFromOrder(await this.createOrderAsync(orderInput));
+  }
 
-    return `<form id="checkoutForm" name="checkoutForm" 
-    action="${envUrl}" method="post" accept-charset="UTF-8">
-    <input type="hidden" name="jsonRequest" value="${order.payload}">
-    <input type="hidden" name="checksum" value="${order.checksum}">
-    <input type="submit" style="visibility:hidden">
-    </form>
-    <script type="text/javascript">
-      window.onload=function(){
-        window.setTimeout('document.checkoutForm.submit()', 200)
-      }
-    </script>`;
+  // the order travels in the query string, prefer the form when it carries long custom data
+  public getHostedCheckoutUrl(orderInput: OrderInputDto): string {
+    const form = this.getHostedCheckoutForm(orderInput);
+    return getRedirectUrl(form.action, form.fields);
+  }
+
+  public createOrderWithHtml(orderInput: OrderInputDto, options: RedirectFormOptionsDto = {}) {
+    return getAutoSubmitFormHtml(this.getHostedCheckoutForm(orderInput), options, 'checkoutForm');
+  }
+
+  private getHostedCheckoutFormFromOrder(order: OrderOutputDto): RedirectFormDto {
+    return {
+      action: this.commonService.getUrl(),
+      method: 'post',
+      fields: { jsonRequest: order.payload, checksum: order.checksum },
+    };
   }
 
-  public getWebviewCheckoutHtml(
+  public async getWebviewCheckoutHtml(
     orderInput: OrderInputDto,
-    theme: ThemeEnum,
+    options: WebviewCheckoutOptionsDto = {},
     sessionToken?: string,
-    userId?: number,
-  ): string {
-    const order = this.createOrder(orderInput);
+  ): Promise<string> {
+    const scriptUrl = this.getWebviewScriptUrl(options.sdkVersion);
+    const order = await this.createOrderAsync(orderInput);
 
-    return getWebviewCheckoutHtmlString(
-      orderInput.publicKey,
-      order.payload,
-      order.checksum,
-      theme,
+    return getWebviewCheckoutHtmlString({
+      scriptUrl,
+      publicKey: orderInput.publicKey,
+      payload: order.payload,
+      checksum: order.checksum,
       sessionToken,
-      userId,
-    );
+      options,
+    });
+  }
+
+  // the payment form script is served by the checkout of the secret key environment
+  private getWebviewScriptUrl(sdkVersion: string = DEFAULT_WEBVIEW_SDK_VERSION): string {
+    if (!SDK_VERSION_REGEX.test(sdkVersion)) {
+      const message = `Invalid sdkVersion: ${sdkVersion}`;
+      throw new XMoneyValidationError(message, [{ path: 'sdkVersion', message }]);
+    }
+
+    return `${this.commonService.getUrl()}/sdk/${sdkVersion}/xmoney.js`;
   }
 
   public async getOrderById(
     orderId: string,
+    signal?: AbortSignal,
   ): Promise<ApiResponseDto<xMoneyGetOrderResponseDataDto>> {
-    const orders = await this.apiService.getOrderByExternalId(orderId);
+    const orders = await this.apiService.getOrderByExternalId(orderId, signal);
     if (!orders?.data?.[0]) {
-      throw new Error('Order not found');
+      throw new XMoneyApiError('Order not found', {
+        status: xMoneyResponseCodeEnum.NotFound,
+        code: xMoneyResponseCodeEnum.NotFound,
+      });
     }
     return {
       data: orders.data ? orders.data[0] : undefined,
     };
   }
 
+  public listOrders(
+    filters: OrderListFiltersDto = {},
+  ): AsyncGenerator<xMoneyGetOrderResponseDataDto, void, undefined> {
+    return paginate(async (page, perPage) => {
+      const orders = await this.apiService.getOrders(filters, page, perPage);
+      assertXMoneySuccess(orders);
+      return orders;
+    }, filters.perPage);
+  }
+
   public async createOrderWithSavedCard(
     orderInput: OrderInputSavedCardDto,
     iteration = 0,
-  ): Promise<ApiResponseDto<xMoneyCreateOrderResponseDataDto>> {
+  ): Promise<OrderSavedCardOutputDto> {
     // Allow maximum 2 recursive calls
     if (iteration === 2) {
-      throw new Error('Maximum iterations limit exceeded for create order');
+      throw new XMoneyError('Maximum iterations limit exceeded for create order');
+    }
+    // the soft decline retry only changes the transaction options, no need to validate again
+    if (iteration === 0) {
+      assertValidInput(validateSavedCardOrderInput(orderInput), 'Invalid saved card order input');
+      orderInput = {
+        ...orderInput,
+        amount: Money.fromDecimal(orderInput.amount, orderInput.currency).toDecimal(),
+      };
     }
+    setActiveSpanAttributes({ [TelemetryAttribute.SoftDeclineRetries]: iteration });
 
-    const order = await this.apiService.createOrder(orderInput);
+    let order: xMoneyApiResponseDto<xMoneyCreateOrderResponseDataDto>;
+    try {
+      order = await this.apiService.createOrder(orderInput);
+    } catch (error) {
+      if (error instanceof XMoneyCardDeclinedError) {
+        recordDecline(error, this.commonService.getEnvironment());
+      }
+
+      // if error code is soft decline, we can try again
+      if (error instanceof XMoneyCardDeclinedError && error.isSoftDecline) {
+        const softDeclineInput = {
+          ...orderInput,
+          transactionOption: this.withSoftDecline(orderInput.transactionOption),
+          // the retry is a new charge attempt, it must not be deduplicated with the declined one
+          idempotencyKey: orderInput.idempotencyKey && `${orderInput.idempotencyKey}-soft-decline`,
+        };
+
+        return await this.createOrderWithSavedCard(softDeclineInput, ++iteration);
+      }
+      throw error;
+    }
 
     if (
       order.data &&
       (order.code === xMoneyResponseCodeEnum.Success ||
         order.code === xMoneyResponseCodeEnum.Created)
     ) {
-      return { data: order.data };
+      return this.getSavedCardOutput(order.data);
     }
 
-    // if error code is soft decline, we can try again
-    if (order.error && order.error.find((e) => e.code === xMoneyResponseCodeEnum.SoftDecline)) {
-      const softDeclineInput = {
-        ...orderInput,
-        transactionOption: JSON.stringify({
-          isSoftDecline: 'yes',
-        }),
-      };
+    // the api answered without an error status but did not create the order
+    throw createXMoneyApiError(order);
+  }
+
+  // keeps the stored credential options of the declined charge, also when given as a JSON string
+  private withSoftDecline(
+    option: OrderInputSavedCardDto['transactionOption'],
+  ): OrderInputSavedCardDto['transactionOption'] {
+    if (typeof option === 'string') {
+      return JSON.stringify({ ...JSON.parse(option), isSoftDecline: 'yes' });
+    }
+    return { ...option, isSoftDecline: true };
+  }
+
+  public getThreeDSecureRedirectHtml(
+    redirect: xMoneyCreateOrderResponseDataRedirectDto,
+    options: RedirectFormOptionsDto = {},
+  ): string {
+    const method = redirect.formMethod === xMoneyFormMethodEnum.Get ? 'get' : 'post';
+    return getAutoSubmitFormHtml(
+      { action: redirect.url, method, fields: redirect.params ?? {} },
+      options,
+    );
+  }
+
+  public getThreeDSecureRedirectUrl(redirect: xMoneyCreateOrderResponseDataRedirectDto): string {
+    // the params of a POST form cannot be moved to the query string
+    if (redirect.formMethod !== xMoneyFormMethodEnum.Get) {
+      throw new XMoneyError(
+        'The 3-D Secure page expects a POST form, use getThreeDSecureRedirectHtml instead',
+      );
+    }
+    return getRedirectUrl(redirect.url, redirect.params ?? {});
+  }
+
+  // called once the customer is back from the 3-D Secure page, the IPN may not have arrived yet
+  public async confirmOrder(externalOrderId: string): Promise<OrderConfirmationDto> {
+    // getOrderById throws when the order does not exist
+    const order = (await this.getOrderById(externalOrderId)).data as OrderDetailsDto;
+
+    switch (order.orderStatus) {
+      case xMoneyOrderStatusEnum.CompleteOk:
+        return { status: 'completed', order };
+      case xMoneyOrderStatusEnum.CompleteFailed:
+        return { status: 'failed', order };
+      default:
+        return { status: 'pending', order };
+    }
+  }
+
+  // polls the order until it is complete-ok or complete-failed, for when the IPN has not arrived yet
+  public async waitForOrderCompletion(
+    externalOrderId: string,
+    options: WaitForOrderOptionsDto = {},
+  ): Promise<OrderDetailsDto> {
+    const {
+      timeoutMs = DEFAULT_ORDER_WAIT_TIMEOUT_MS,
+      intervalMs = DEFAULT_ORDER_POLL_INTERVAL_MS,
+      signal,
+    } = options;
+    const deadline = Date.now() + timeoutMs;
+    let order: OrderDetailsDto | undefined;
+    const timeoutError = () =>
+      new XMoneyTimeoutError(
+        `Order ${externalOrderId} did not complete within ${timeoutMs}ms`,
+        order,
+      );
+
+    // aborts an in-flight poll as well, once the caller gives up or the deadline is reached
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(timeoutError()), timeoutMs);
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+
+        order = (await this.findOrderById(externalOrderId, controller.signal)) ?? order;
+        setActiveSpanAttributes({ [TelemetryAttribute.OrderPolls]: attempt + 1 });
+        if (
+          order?.orderStatus === xMoneyOrderStatusEnum.CompleteOk ||
+          order?.orderStatus === xMoneyOrderStatusEnum.CompleteFailed
+        ) {
+          return order;
+        }
+
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+          throw timeoutError();
+        }
+
+        const delay = getBackoffDelay(attempt, {
+          initialDelayMs: intervalMs,
+          maxDelayMs: Math.max(intervalMs, DEFAULT_ORDER_POLL_MAX_INTERVAL_MS),
+          multiplier: 1.5,
+          jitter: false,
+        });
+        await sleep(Math.min(delay, remainingMs), controller.signal);
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // right after a redirect the order may not be listed yet
+  private async findOrderById(
+    externalOrderId: string,
+    signal?: AbortSignal,
+  ): Promise<OrderDetailsDto | undefined> {
+    try {
+      return (await this.getOrderById(externalOrderId, signal)).data;
+    } catch (error) {
+      if (error instanceof XMoneyApiError && error.status === xMoneyResponseCodeEnum.NotFound) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private getSavedCardOutput(data: xMoneyCreateOrderResponseDataDto): OrderSavedCardOutputDto {
+    const isThreeDSecure = !!data.is3d;
 
-      return await this.createOrderWithSavedCard(softDeclineInput, ++iteration);
-    } else {
-      // if error code is not soft decline, return error
-      throw new Error(order.error?.length ? order.error[0].message : 'Unknown error');
+    if (data.redirect?.url) {
+      return { status: 'requires_action', isThreeDSecure, data, redirect: data.redirect };
     }
+    return { status: 'completed', isThreeDSecure, data };
   }
 
   public decryptOrderResponse(encryptedResponse: string): xMoneyOrderDecryptResponseDto {
-    // get the IV and the encrypted data
-    const encryptedParts = encryptedResponse.split(',', 2),
-      iv = Buffer.from(encryptedParts[0], 'base64'),
-      encryptedData = Buffer.from(encryptedParts[1], 'base64');
+    const { iv, encryptedData } = this.splitEncryptedResponse(encryptedResponse);
 
     // decrypt the encrypted data
-    const decipher = crypto.createDecipheriv('aes-256-cbc', this.commonService.getPrivateKey(), iv),
-      decryptedIpnResponse = Buffer.concat([
-        decipher.update(encryptedData),
-        decipher.final(),
-      ]).toString();
+    let decryptedIpnResponse: string;
+    try {
+      const decipher = getNodeCrypto().createDecipheriv(
+        'aes-256-cbc',
+        this.commonService.getPrivateKey(),
+        iv,
+      );
+      decryptedIpnResponse = new TextDecoder().decode(
+        Buffer.concat([decipher.update(encryptedData), decipher.final()]),
+      );
+    } catch (error: any) {
+      throw this.getDecryptError(error);
+    }
+
+    return this.parseDecryptedResponse(decryptedIpnResponse);
+  }
+
+  public async decryptOrderResponseAsync(
+    encryptedResponse: string,
+  ): Promise<xMoneyOrderDecryptResponseDto> {
+    if (!isWebCryptoAvailable()) {
+      return this.decryptOrderResponse(encryptedResponse);
+    }
+
+    const { iv, encryptedData } = this.splitEncryptedResponse(encryptedResponse);
 
+    let decryptedIpnResponse: string;
+    try {
+      decryptedIpnResponse = await decryptAes256Cbc(
+        this.commonService.getPrivateKey(),
+        iv,
+        encryptedData,
+      );
+    } catch (error: any) {
+      throw this.getDecryptError(error);
+    }
+
+    return this.parseDecryptedResponse(decryptedIpnResponse);
+  }
+
+  private splitEncryptedResponse(encryptedResponse: string): {
+    iv: Uint8Array;
+    encryptedData: Uint8Array;
+  } {
+    // get the IV and the encrypted data
+    const encryptedParts = encryptedResponse.trim().split(',');
+    if (encryptedParts.length !== 2 || !encryptedParts.every((part) => BASE64_REGEX.test(part))) {
+      throw new WebhookVerificationError(
+        'Invalid encrypted payload format. Expected format: <base64 iv>,<base64 data>',
+      );
+    }
+
+    const iv = base64ToBytes(encryptedParts[0]),
+      encryptedData = base64ToBytes(encryptedParts[1]);
+    if (iv.length !== AES_IV_LENGTH) {
+      throw new WebhookVerificationError(
+        `Invalid IV length: expected ${AES_IV_LENGTH} bytes, got ${iv.length}`,
+      );
+    }
+
+    return { iv, encryptedData };
+  }
+
+  private getDecryptError(error: any): WebhookVerificationError {
+    return new WebhookVerificationError(
+      `Unable to decrypt payload, check the secret key: ${error?.message}`,
+    );
+  }
+
+  private parseDecryptedResponse(decryptedIpnResponse: string): xMoneyOrderDecryptResponseDto {
     // JSON decode the decrypted data
-    return JSON.parse(decryptedIpnResponse) as xMoneyOrderDecryptResponseDto;
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(decryptedIpnResponse);
+    } catch {
+      throw new WebhookVerificationError('Decrypted payload is not valid JSON');
+    }
+
+    assertOrderDecryptResponse(decoded);
+    return decoded;
   }
 }
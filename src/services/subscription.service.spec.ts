@@ -0,0 +1,202 @@
+import { SubscriptionService } from './subscription.service';
+import { CommonService } from './common.service';
+import { xMoneyApiService } from './xmoney-api.service';
+import { SubscriptionInputDto } from '../typings/dtos';
+import { XMoneyApiError, XMoneyValidationError } from '../errors';
+import {
+  xMoneyIntervalTypeEnum,
+  xMoneyOrderTypeEnum,
+  xMoneyRefundReasonEnum,
+  xMoneyResponseCodeEnum,
+} from '../typings/enums';
+
+describe('SubscriptionService', () => {
+  let service: SubscriptionService;
+  let apiService: xMoneyApiService;
+  let orderApiService: xMoneyApiService;
+  const firstBillDate = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000);
+  const subscriptionInput: SubscriptionInputDto = {
+    publicKey: 'pk_test_abc123',
+    backUrl: 'https://example.com',
+    customer: { identifier: 'test-customer' },
+    subscription: {
+      orderId: 'subscription-1',
+      amount: 9.99,
+      currency: 'EUR',
+      description: 'Monthly plan',
+      intervalType: xMoneyIntervalTypeEnum.Month,
+      intervalValue: 1,
+      trialAmount: 0,
+      firstBillDate,
+    },
+  };
+
+  beforeEach(() => {
+    service = new SubscriptionService(new CommonService({ secretKey: 'sk_test_abc123' }));
+    apiService = (service as any).apiService;
+    orderApiService = (service as any).orderService.apiService;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createSubscriptionCheckout', () => {
+    it('should sign a recurring order', () => {
+      const result = service.createSubscriptionCheckout(subscriptionInput);
+      const order = JSON.parse(Buffer.from(result.payload, 'base64').toString());
+
+      expect(order.cardTransactionMode).toBe('authAndCapture');
+      expect(order.order).toEqual({
+        orderId: 'subscription-1',
+        type: 'recurring',
+        amount: 9.99,
+        currency: 'EUR',
+        description: 'Monthly plan',
+        intervalType: 'month',
+        intervalValue: '1',
+        trialAmount: 0,
+        firstBillDate: firstBillDate.toISOString(),
+      });
+    });
+
+    it('should reject invalid intervals and a trial without a future first bill date', () => {
+      let error: XMoneyValidationError | undefined;
+      try {
+        service.createSubscriptionCheckout({
+          ...subscriptionInput,
+          subscription: {
+            ...subscriptionInput.subscription,
+            intervalType: 'week' as any,
+            intervalValue: 1.5,
+            firstBillDate: '2020-01-01',
+          },
+        });
+      } catch (e: any) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(XMoneyValidationError);
+      expect(error?.issues.map((issue) => issue.path)).toEqual([
+        'subscription.intervalType',
+        'subscription.intervalValue',
+        'subscription.firstBillDate',
+      ]);
+    });
+  });
+
+  describe('getSubscription', () => {
+    it('should return the recurring order with its next due date', async () => {
+      jest.spyOn(orderApiService, 'getOrderByExternalId').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+        data: [
+          {
+            id: 1,
+            orderType: xMoneyOrderTypeEnum.Recurring,
+            nextDueDate: '2030-01-15T00:00:00Z',
+          } as any,
+        ],
+      });
+
+      await expect(service.getNextDueDate('subscription-1')).resolves.toEqual(
+        new Date('2030-01-15T00:00:00Z'),
+      );
+    });
+
+    it('should throw when the order is not recurring', async () => {
+      jest.spyOn(orderApiService, 'getOrderByExternalId').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+        data: [{ id: 1, orderType: xMoneyOrderTypeEnum.Purchase } as any],
+      });
+
+      await expect(service.getSubscription('order-1')).rejects.toThrow(
+        'Order order-1 is not a subscription',
+      );
+    });
+  });
+
+  describe('listSubscriptions', () => {
+    it('should only list recurring orders', async () => {
+      const getOrdersSpy = jest.spyOn(orderApiService, 'getOrders').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+        data: [{ id: 1 }] as any,
+      });
+
+      const ids: number[] = [];
+      for await (const subscription of service.listSubscriptions({ customerId: 3 })) {
+        ids.push(subscription.id);
+      }
+
+      expect(ids).toEqual([1]);
+      expect(getOrdersSpy).toHaveBeenCalledWith(
+        { customerId: 3, orderType: xMoneyOrderTypeEnum.Recurring },
+        0,
+        100,
+      );
+    });
+  });
+
+  describe('cancelSubscription', () => {
+    it('should cancel the order with the given reason', async () => {
+      const cancelOrderSpy = jest.spyOn(apiService, 'cancelOrder').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+      });
+      const input = { orderId: 1, reason: xMoneyRefundReasonEnum.CustomerDemand };
+
+      await service.cancelSubscription(input);
+
+      expect(cancelOrderSpy).toHaveBeenCalledWith(input);
+    });
+
+    it('should throw XMoneyApiError when the api rejects the operation', async () => {
+      jest.spyOn(apiService, 'cancelOrder').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.BadRequest,
+        message: 'Order cannot be cancelled',
+      });
+
+      await expect(service.cancelSubscription({ orderId: 1 })).rejects.toBeInstanceOf(
+        XMoneyApiError,
+      );
+    });
+  });
+
+  describe('pauseSubscription', () => {
+    it('should move the next due date of the order to the resume date', async () => {
+      const updateOrderSpy = jest.spyOn(apiService, 'updateOrder').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+      });
+      const resumeAt = new Date(Date.now() + 86400000);
+
+      await service.pauseSubscription(1, resumeAt);
+
+      expect(updateOrderSpy).toHaveBeenCalledWith({ orderId: 1, nextDueDate: resumeAt });
+    });
+
+    it('should reject a resume date in the past', async () => {
+      const updateOrderSpy = jest.spyOn(apiService, 'updateOrder');
+
+      await expect(service.pauseSubscription(1, '2020-01-01')).rejects.toThrow(
+        'resumeAt must be in the future',
+      );
+      expect(updateOrderSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resumeSubscription', () => {
+    it('should move the next due date of the order to now', async () => {
+      const updateOrderSpy = jest.spyOn(apiService, 'updateOrder').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+      });
+
+      await service.resumeSubscription(1);
+
+      expect(updateOrderSpy).toHaveBeenCalledWith({ orderId: 1, nextDueDate: expect.any(Date) });
+    });
+  });
+});
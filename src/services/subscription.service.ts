@@ -0,0 +1,109 @@
+import {
+  ApiResponseDto,
+  CancelSubscriptionInputDto,
+  OrderInputDto,
+  OrderListFiltersDto,
+  OrderOutputDto,
+  SubscriptionDetailsDto,
+  SubscriptionInputDto,
+} from '../typings/dtos';
+import { xMoneyOrderTypeEnum, xMoneyResponseCodeEnum } from '../typings/enums';
+import { CommonService } from './common.service';
+import { OrderService } from './order.service';
+import { xMoneyApiService } from './xmoney-api.service';
+import { XMoneyApiError } from '../errors';
+import { assertXMoneySuccess } from '../errors/create-xmoney-api-error';
+import {
+  assertValidInput,
+  validatePauseSubscriptionInput,
+  validateSubscriptionInput,
+} from '../validation/validate-input';
+
+export class SubscriptionService {
+  private commonService: CommonService;
+  private apiService: xMoneyApiService;
+  private orderService: OrderService;
+
+  public constructor(commonService: CommonService) {
+    this.commonService = commonService;
+    this.apiService = new xMoneyApiService(this.commonService);
+    this.orderService = new OrderService(this.commonService);
+  }
+
+  public createSubscriptionCheckout(input: SubscriptionInputDto): OrderOutputDto {
+    return this.orderService.createOrder(this.buildOrderInput(input));
+  }
+
+  public createSubscriptionCheckoutAsync(input: SubscriptionInputDto): Promise<OrderOutputDto> {
+    return this.orderService.createOrderAsync(this.buildOrderInput(input));
+  }
+
+  public async getSubscription(
+    externalOrderId: string,
+  ): Promise<ApiResponseDto<SubscriptionDetailsDto>> {
+    const order = await this.orderService.getOrderById(externalOrderId);
+    if (order.data?.orderType !== xMoneyOrderTypeEnum.Recurring) {
+      throw new XMoneyApiError(`Order ${externalOrderId} is not a subscription`, {
+        status: xMoneyResponseCodeEnum.NotFound,
+        code: xMoneyResponseCodeEnum.NotFound,
+      });
+    }
+
+    return { data: order.data };
+  }
+
+  // undefined once the subscription is cancelled or its last charge failed
+  public async getNextDueDate(externalOrderId: string): Promise<Date | undefined> {
+    const subscription = await this.getSubscription(externalOrderId);
+    const nextDueDate = subscription.data?.nextDueDate;
+
+    return nextDueDate ? new Date(nextDueDate) : undefined;
+  }
+
+  public listSubscriptions(
+    filters: Omit<OrderListFiltersDto, 'orderType'> = {},
+  ): AsyncGenerator<SubscriptionDetailsDto, void, undefined> {
+    return this.orderService.listOrders({ ...filters, orderType: xMoneyOrderTypeEnum.Recurring });
+  }
+
+  public async cancelSubscription(input: CancelSubscriptionInputDto): Promise<void> {
+    assertXMoneySuccess(await this.apiService.cancelOrder(input));
+  }
+
+  // moves the next charge through the order update, billing starts again on its own at resumeAt
+  public async pauseSubscription(orderId: number, resumeAt: Date | string): Promise<void> {
+    assertValidInput(
+      validatePauseSubscriptionInput(orderId, resumeAt),
+      'Invalid subscription pause input',
+    );
+    assertXMoneySuccess(await this.apiService.updateOrder({ orderId, nextDueDate: resumeAt }));
+  }
+
+  // the next charge happens right away
+  public async resumeSubscription(orderId: number): Promise<void> {
+    assertXMoneySuccess(await this.apiService.updateOrder({ orderId, nextDueDate: new Date() }));
+  }
+
+  private buildOrderInput(input: SubscriptionInputDto): OrderInputDto {
+    assertValidInput(validateSubscriptionInput(input), 'Invalid subscription input');
+
+    const { subscription, ...checkout } = input;
+    const { firstBillDate } = subscription;
+    return {
+      ...checkout,
+      cardTransactionMode: 'authAndCapture',
+      order: {
+        orderId: subscription.orderId,
+        type: xMoneyOrderTypeEnum.Recurring,
+        amount: subscription.amount,
+        currency: subscription.currency,
+        description: subscription.description,
+        intervalType: subscription.intervalType,
+        intervalValue: String(subscription.intervalValue),
+        retryPayment: subscription.retryPayment,
+        trialAmount: subscription.trialAmount,
+        firstBillDate: firstBillDate && new Date(firstBillDate).toISOString(),
+      },
+    };
+  }
+}
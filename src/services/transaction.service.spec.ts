@@ -0,0 +1,214 @@
+import { TransactionService } from './transaction.service';
+import { CommonService } from './common.service';
+import { xMoneyApiService } from './xmoney-api.service';
+import { XMoneyValidationError } from '../errors';
+import {
+  xMoneyRefundReasonEnum,
+  xMoneyResponseCodeEnum,
+  xMoneyTransactionStatusEnum,
+} from '../typings/enums';
+
+describe('TransactionService', () => {
+  let service: TransactionService;
+  let apiService: xMoneyApiService;
+
+  beforeEach(() => {
+    service = new TransactionService(new CommonService({ secretKey: 'sk_test_abc123' }));
+    apiService = (service as any).apiService;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const transaction = (transactionStatus: xMoneyTransactionStatusEnum, currency = 'EUR') => ({
+    code: xMoneyResponseCodeEnum.Success,
+    message: 'Success',
+    data: { id: 10, amount: 100, currency, transactionStatus } as any,
+  });
+
+  describe('listTransactions', () => {
+    it('should page through every transaction matching the filters', async () => {
+      const getTransactionsSpy = jest
+        .spyOn(apiService, 'getTransactions')
+        .mockImplementation((_filters, page) =>
+          Promise.resolve({
+            code: xMoneyResponseCodeEnum.Success,
+            message: 'Success',
+            data: [{ id: page * 2 + 1 }, { id: page * 2 + 2 }] as any,
+            pagination: { currentPageNumber: page, perPage: 2, pageCount: 2, totalItemCount: 4 },
+          }),
+        );
+      const filters = {
+        transactionStatus: xMoneyTransactionStatusEnum.CompleteOk,
+        createdAtFrom: '2025-01-01T00:00:00Z',
+        perPage: 2,
+      };
+
+      const ids: number[] = [];
+      for await (const transaction of service.listTransactions(filters)) {
+        ids.push(transaction.id);
+      }
+
+      expect(ids).toEqual([1, 2, 3, 4]);
+      expect(getTransactionsSpy).toHaveBeenCalledTimes(2);
+      expect(getTransactionsSpy).toHaveBeenLastCalledWith(filters, 1, 2);
+    });
+
+    it('should stop on a short page when the api sends no pagination', async () => {
+      const getTransactionsSpy = jest.spyOn(apiService, 'getTransactions').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+        data: [{ id: 1 }] as any,
+      });
+
+      const ids: number[] = [];
+      for await (const transaction of service.listTransactions({ perPage: 2 })) {
+        ids.push(transaction.id);
+      }
+
+      expect(ids).toEqual([1]);
+      expect(getTransactionsSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('refundTransaction', () => {
+    it('should send a normalized partial refund and read the status back', async () => {
+      const getTransactionSpy = jest
+        .spyOn(apiService, 'getTransactionById')
+        .mockResolvedValueOnce(transaction(xMoneyTransactionStatusEnum.CompleteOk))
+        .mockResolvedValueOnce(transaction(xMoneyTransactionStatusEnum.CompleteOk));
+      const refundSpy = jest.spyOn(apiService, 'refundTransaction').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+      });
+
+      const result = await service.refundTransaction({
+        transactionId: 10,
+        amount: 0.1 + 0.2,
+        reason: xMoneyRefundReasonEnum.CustomerDemand,
+      });
+
+      expect(refundSpy).toHaveBeenCalledWith({
+        transactionId: 10,
+        amount: 0.3,
+        reason: xMoneyRefundReasonEnum.CustomerDemand,
+      });
+      // a partial refund leaves the transaction complete
+      expect(result).toEqual({
+        transactionId: 10,
+        transactionStatus: xMoneyTransactionStatusEnum.CompleteOk,
+        amount: 100,
+      });
+      expect(getTransactionSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refund the whole transaction when the amount is omitted', async () => {
+      jest
+        .spyOn(apiService, 'getTransactionById')
+        .mockResolvedValue(transaction(xMoneyTransactionStatusEnum.RefundOk));
+      const refundSpy = jest.spyOn(apiService, 'refundTransaction').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+      });
+
+      const result = await service.refundTransaction({ transactionId: 10 });
+
+      expect(refundSpy).toHaveBeenCalledWith({ transactionId: 10 });
+      expect(result).toEqual({
+        transactionId: 10,
+        transactionStatus: xMoneyTransactionStatusEnum.RefundOk,
+        amount: 100,
+      });
+    });
+
+    it.each([
+      [1.999, 'amount must have at most 2 decimals'],
+      [-5, 'amount must be greater than 0'],
+    ])('should reject a refund of %p', async (amount, message) => {
+      jest
+        .spyOn(apiService, 'getTransactionById')
+        .mockResolvedValue(transaction(xMoneyTransactionStatusEnum.CompleteOk));
+      const refundSpy = jest.spyOn(apiService, 'refundTransaction');
+
+      const error = await service.refundTransaction({ transactionId: 10, amount }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(XMoneyValidationError);
+      expect(error.message).toContain(message);
+      expect(refundSpy).not.toHaveBeenCalled();
+    });
+
+    it('should allow the decimals of the transaction currency', async () => {
+      jest
+        .spyOn(apiService, 'getTransactionById')
+        .mockResolvedValue(transaction(xMoneyTransactionStatusEnum.CompleteOk, 'KWD'));
+      const refundSpy = jest.spyOn(apiService, 'refundTransaction').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+      });
+
+      await service.refundTransaction({ transactionId: 10, amount: 1.999 });
+
+      expect(refundSpy).toHaveBeenCalledWith({ transactionId: 10, amount: 1.999 });
+    });
+
+    it('should throw the first api error message when the refund fails', async () => {
+      jest
+        .spyOn(apiService, 'getTransactionById')
+        .mockResolvedValue(transaction(xMoneyTransactionStatusEnum.CompleteOk));
+      jest.spyOn(apiService, 'refundTransaction').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.BadRequest,
+        message: 'Bad Request',
+        error: [
+          {
+            code: xMoneyResponseCodeEnum.BadRequest,
+            message: 'Amount exceeds refundable amount',
+            type: 'Exception',
+          },
+        ],
+      });
+
+      await expect(service.refundTransaction({ transactionId: 10, amount: 500 })).rejects.toThrow(
+        'Amount exceeds refundable amount',
+      );
+    });
+  });
+
+  describe('captureTransaction', () => {
+    it('should return the status reported by the api after the capture', async () => {
+      jest
+        .spyOn(apiService, 'getTransactionById')
+        .mockResolvedValueOnce(transaction(xMoneyTransactionStatusEnum.InProgress))
+        .mockResolvedValueOnce(transaction(xMoneyTransactionStatusEnum.CompleteOk));
+      const captureSpy = jest.spyOn(apiService, 'captureTransaction').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+      });
+
+      const result = await service.captureTransaction({ transactionId: 11, amount: 20 });
+
+      expect(captureSpy).toHaveBeenCalledWith({ transactionId: 11, amount: 20 });
+      expect(result.transactionStatus).toBe(xMoneyTransactionStatusEnum.CompleteOk);
+    });
+  });
+
+  describe('voidTransaction', () => {
+    it('should return the status reported by the api after the void', async () => {
+      jest
+        .spyOn(apiService, 'getTransactionById')
+        .mockResolvedValue(transaction(xMoneyTransactionStatusEnum.VoidOk));
+      jest.spyOn(apiService, 'voidTransaction').mockResolvedValue({
+        code: xMoneyResponseCodeEnum.Success,
+        message: 'Success',
+      });
+
+      const result = await service.voidTransaction(12);
+
+      expect(result).toEqual({
+        transactionId: 12,
+        transactionStatus: xMoneyTransactionStatusEnum.VoidOk,
+        amount: 100,
+      });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  ApiResponseDto,
+  CaptureTransactionInputDto,
+  RefundTransactionInputDto,
+  TransactionListFiltersDto,
+  TransactionOperationOutputDto,
+  xMoneyGetTransactionResponseDataDto,
+} from '../typings/dtos';
+import { FiatCurrenciesEnum, xMoneyResponseCodeEnum } from '../typings/enums';
+import { CommonService } from './common.service';
+import { xMoneyApiService } from './xmoney-api.service';
+import { paginate } from '../utils/paginate';
+import { assertXMoneySuccess } from '../errors/create-xmoney-api-error';
+import { XMoneyApiError } from '../errors';
+import { Money } from '../utils/money';
+import { assertValidInput, validateTransactionOperationInput } from '../validation/validate-input';
+
+export class TransactionService {
+  private commonService: CommonService;
+  private apiService: xMoneyApiService;
+
+  public constructor(commonService: CommonService) {
+    this.commonService = commonService;
+    this.apiService = new xMoneyApiService(this.commonService);
+  }
+
+  public async getTransaction(
+    transactionId: number,
+  ): Promise<ApiResponseDto<xMoneyGetTransactionResponseDataDto>> {
+    const response = await this.apiService.getTransactionById(transactionId);
+    assertXMoneySuccess(response);
+
+    return { data: response.data };
+  }
+
+  public listTransactions(
+    filters: TransactionListFiltersDto = {},
+  ): AsyncGenerator<xMoneyGetTransactionResponseDataDto, void, undefined> {
+    return paginate(async (page, perPage) => {
+      const response = await this.apiService.getTransactions(filters, page, perPage);
+      assertXMoneySuccess(response);
+      return response;
+    }, filters.perPage);
+  }
+
+  public async refundTransaction(
+    input: RefundTransactionInputDto,
+  ): Promise<TransactionOperationOutputDto> {
+    const request = await this.normalizeAmount(input, 'Invalid refund input');
+    const response = await this.apiService.refundTransaction(request);
+    assertXMoneySuccess(response);
+
+    return await this.getOperationOutput(input.transactionId);
+  }
+
+  public async captureTransaction(
+    input: CaptureTransactionInputDto,
+  ): Promise<TransactionOperationOutputDto> {
+    const request = await this.normalizeAmount(input, 'Invalid capture input');
+    const response = await this.apiService.captureTransaction(request);
+    assertXMoneySuccess(response);
+
+    return await this.getOperationOutput(input.transactionId);
+  }
+
+  public async voidTransaction(transactionId: number): Promise<TransactionOperationOutputDto> {
+    assertValidInput(validateTransactionOperationInput({ transactionId }), 'Invalid void input');
+    const response = await this.apiService.voidTransaction(transactionId);
+    assertXMoneySuccess(response);
+
+    return await this.getOperationOutput(transactionId);
+  }
+
+  // the amount decimals are those of the transaction currency, as for the order amounts
+  private async normalizeAmount<T extends RefundTransactionInputDto | CaptureTransactionInputDto>(
+    input: T,
+    message: string,
+  ): Promise<T> {
+    assertValidInput(validateTransactionOperationInput(input), message);
+    if (input.amount === undefined) {
+      return input;
+    }
+
+    const { currency } = await this.getTransactionData(input.transactionId);
+    assertValidInput(validateTransactionOperationInput(input, currency), message);
+
+    return {
+      ...input,
+      amount: Money.fromDecimal(input.amount, currency as `${FiatCurrenciesEnum}`).toDecimal(),
+    };
+  }
+
+  // a partial refund may leave the transaction complete, so the status is read back from the api
+  private async getOperationOutput(transactionId: number): Promise<TransactionOperationOutputDto> {
+    const { transactionStatus, amount } = await this.getTransactionData(transactionId);
+
+    return { transactionId, transactionStatus, amount };
+  }
+
+  private async getTransactionData(
+    transactionId: number,
+  ): Promise<xMoneyGetTransactionResponseDataDto> {
+    const { data } = await this.getTransaction(transactionId);
+    if (!data) {
+      throw new XMoneyApiError('Transaction not found', {
+        status: xMoneyResponseCodeEnum.NotFound,
+        code: xMoneyResponseCodeEnum.NotFound,
+      });
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,359 @@
+import { xMoneyApiService } from './xmoney-api.service';
+import { CommonService } from './common.service';
+import {
+  XMoneyApiError,
+  XMoneyAuthenticationError,
+  XMoneyCardDeclinedError,
+  XMoneyNetworkError,
+} from '../errors';
+import { xMoneyResponseCodeEnum } from '../typings/enums';
+import { getBackoffDelay, parseRetryAfter } from '../utils/backoff';
+
+describe('xMoneyApiService', () => {
+  let service: xMoneyApiService;
+  const transport = { request: jest.fn() };
+
+  beforeEach(() => {
+    service = new xMoneyApiService(
+      new CommonService({
+        secretKey: 'sk_test_abc123',
+        backoff: { initialDelayMs: 1, jitter: false },
+        transport,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('transport', () => {
+    it('should send authenticated requests to the environment api url', async () => {
+      transport.request.mockResolvedValue({ status: 200, headers: {}, data: { code: 200 } });
+
+      await service.refundTransaction({ transactionId: 1, amount: 5 });
+
+      expect(transport.request).toHaveBeenCalledWith({
+        method: 'DELETE',
+        url: 'https://api-stage.xmoney.com/transaction/1',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: 'Bearer abc123',
+        },
+        body: 'amount=5',
+        timeoutMs: 30000,
+      });
+    });
+  });
+
+  describe('updateOrder', () => {
+    it('should send the next due date through the order update', async () => {
+      transport.request.mockResolvedValue({ status: 200, headers: {}, data: { code: 200 } });
+
+      await service.updateOrder({ orderId: 7, nextDueDate: new Date('2030-01-01T00:00:00Z') });
+
+      expect(transport.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: 'PUT',
+          url: 'https://api-stage.xmoney.com/order/7',
+          headers: expect.objectContaining({
+            'Content-Type': 'application/x-www-form-urlencoded',
+          }),
+          body: 'nextDueDate=2030-01-01T00%3A00%3A00.000Z',
+        }),
+      );
+    });
+  });
+
+  describe('error handling', () => {
+    it('should throw XMoneyNetworkError when no response was received', async () => {
+      transport.request.mockRejectedValue(new Error('socket hang up'));
+
+      const request = service.getTransactionById(1);
+
+      await expect(request).rejects.toBeInstanceOf(XMoneyNetworkError);
+      await expect(request).rejects.toThrow('socket hang up');
+    });
+
+    it('should throw XMoneyAuthenticationError on 401', async () => {
+      transport.request.mockResolvedValue({
+        status: 401,
+        headers: {},
+        data: { code: 401, message: 'Unauthorized' },
+      });
+
+      await expect(service.getSessionToken()).rejects.toBeInstanceOf(XMoneyAuthenticationError);
+    });
+
+    it('should throw XMoneyCardDeclinedError carrying the api error details', async () => {
+      const errors = [
+        {
+          code: xMoneyResponseCodeEnum.SoftDecline,
+          message: 'Soft decline',
+          type: 'Exception',
+        },
+      ];
+      transport.request.mockResolvedValue({
+        status: 400,
+        headers: { 'x-request-id': 'req-123' },
+        data: { code: 400, message: 'Bad Request', error: errors },
+      });
+
+      const error = await service.createOrder({} as any).catch((e) => e);
+
+      expect(error).toBeInstanceOf(XMoneyCardDeclinedError);
+      expect(error).toBeInstanceOf(XMoneyApiError);
+      expect(error.message).toBe('Soft decline');
+      expect(error.status).toBe(400);
+      expect(error.errors).toEqual(errors);
+      expect(error.requestId).toBe('req-123');
+      expect(error.isSoftDecline).toBe(true);
+    });
+
+    it('should throw XMoneyApiError for other error responses', async () => {
+      transport.request.mockResolvedValue({
+        status: 502,
+        headers: {},
+        data: '<html>Bad Gateway</html>',
+      });
+
+      const error = await service.deleteCardById(1).catch((e) => e);
+
+      expect(error).toBeInstanceOf(XMoneyApiError);
+      expect(error).not.toBeInstanceOf(XMoneyCardDeclinedError);
+      expect(error.status).toBe(502);
+      expect(error.message).toBe('xMoney API error (502)');
+    });
+  });
+
+  describe('retries', () => {
+    const serviceUnavailable = {
+      status: 503,
+      headers: { 'retry-after': '0' },
+      data: { code: 503 },
+    };
+
+    it('should retry GET requests on 5xx responses', async () => {
+      transport.request
+        .mockResolvedValueOnce(serviceUnavailable)
+        .mockResolvedValueOnce({ status: 200, headers: {}, data: { code: 200, data: { id: 1 } } });
+
+      const result = await service.getTransactionById(1);
+
+      expect(result.data).toEqual({ id: 1 });
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after maxRetries', async () => {
+      transport.request.mockRejectedValue(new XMoneyNetworkError('ECONNRESET'));
+
+      await expect(service.getTransactionById(1)).rejects.toBeInstanceOf(XMoneyNetworkError);
+      expect(transport.request).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop retrying once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const reason = new Error('stop');
+      transport.request.mockImplementationOnce(() => {
+        controller.abort(reason);
+        return Promise.reject(new XMoneyNetworkError('ECONNRESET'));
+      });
+
+      await expect(service.getOrderByExternalId('order-1', controller.signal)).rejects.toBe(reason);
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry client errors', async () => {
+      transport.request.mockResolvedValue({
+        status: 400,
+        headers: {},
+        data: { code: 400, message: 'Bad Request' },
+      });
+
+      await expect(service.getTransactionById(1)).rejects.toBeInstanceOf(XMoneyApiError);
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry POST order without an idempotency key', async () => {
+      transport.request.mockResolvedValue(serviceUnavailable);
+
+      await expect(service.createOrder({} as any)).rejects.toBeInstanceOf(XMoneyApiError);
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a refund without an idempotency key', async () => {
+      transport.request.mockResolvedValue(serviceUnavailable);
+
+      await expect(
+        service.refundTransaction({ transactionId: 1, amount: 5 }),
+      ).rejects.toBeInstanceOf(XMoneyApiError);
+      expect(transport.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry a refund when an idempotency key is supplied', async () => {
+      transport.request
+        .mockResolvedValueOnce(serviceUnavailable)
+        .mockResolvedValueOnce({ status: 200, headers: {}, data: { code: 200 } });
+
+      await service.refundTransaction({ transactionId: 1, amount: 5, idempotencyKey: 'refund-1' });
+
+      expect(transport.request).toHaveBeenCalledTimes(2);
+      expect(transport.request).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          method: 'DELETE',
+          body: 'amount=5',
+          headers: expect.objectContaining({ 'Idempotency-Key': 'refund-1' }),
+        }),
+      );
+    });
+
+    it('should retry POST order when an idempotency key is supplied', async () => {
+      transport.request.mockResolvedValueOnce(serviceUnavailable).mockResolvedValueOnce({
+        status: 201,
+        headers: {},
+        data: { code: 201, data: { orderId: 1 } },
+      });
+
+      const result = await service.createOrder({ cardId: 1, idempotencyKey: 'key-1' } as any);
+
+      expect(result.data).toEqual({ orderId: 1 });
+      expect(transport.request).toHaveBeenCalledTimes(2);
+      expect(transport.request).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          method: 'POST',
+          body: 'cardId=1',
+          headers: expect.objectContaining({ 'Idempotency-Key': 'key-1' }),
+        }),
+      );
+    });
+
+    it('should send the transaction options as a JSON string', async () => {
+      transport.request.mockResolvedValue({
+        status: 201,
+        headers: {},
+        data: { code: 201, data: { orderId: 1 } },
+      });
+
+      await service.createOrder({
+        cardId: 1,
+        transactionOption: {
+          initiator: 'merchant',
+          storedCredentialReason: 'recurring',
+          isSoftDecline: true,
+        },
+      } as any);
+
+      const body = new URLSearchParams(transport.request.mock.calls[0][0].body);
+      expect(JSON.parse(body.get('transactionOption')!)).toEqual({
+        isSoftDecline: 'yes',
+        initiator: 'merchant',
+        storedCredentialReason: 'recurring',
+      });
+    });
+
+    it('should send a JSON string transaction option unchanged', async () => {
+      transport.request.mockResolvedValue({
+        status: 201,
+        headers: {},
+        data: { code: 201, data: { orderId: 1 } },
+      });
+
+      await service.createOrder({ cardId: 1, transactionOption: '{"isMit":"yes"}' } as any);
+
+      const body = new URLSearchParams(transport.request.mock.calls[0][0].body);
+      expect(body.get('transactionOption')).toBe('{"isMit":"yes"}');
+    });
+  });
+
+  describe('hooks and logging', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const onRequest = jest.fn();
+    const onResponse = jest.fn();
+    const onError = jest.fn();
+
+    beforeEach(() => {
+      service = new xMoneyApiService(
+        new CommonService({
+          secretKey: 'sk_test_abc123',
+          backoff: { initialDelayMs: 1, jitter: false },
+          transport,
+          logger,
+          onRequest,
+          onResponse,
+          onError,
+        }),
+      );
+    });
+
+    it('should emit request and response events without the query string', async () => {
+      transport.request.mockResolvedValue({
+        status: 200,
+        headers: { 'x-request-id': 'req-1' },
+        data: { code: 200, data: [] },
+      });
+
+      await service.getOrders({ customerId: 1 }, 0, 10);
+
+      expect(onRequest).toHaveBeenCalledWith({ method: 'GET', route: 'order', attempt: 0 });
+      expect(onResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 200, requestId: 'req-1', latencyMs: expect.any(Number) }),
+      );
+      expect(logger.debug).toHaveBeenCalledTimes(2);
+    });
+
+    it('should emit error events for every attempt', async () => {
+      transport.request.mockResolvedValue({
+        status: 503,
+        headers: {},
+        data: { code: 503, error: [{ code: 503, message: 'Unavailable', type: 'Exception' }] },
+      });
+
+      await expect(service.getTransactionById(1)).rejects.toBeInstanceOf(XMoneyApiError);
+
+      expect(onError).toHaveBeenCalledTimes(3);
+      expect(onError).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          route: 'transaction/:id',
+          attempt: 2,
+          status: 503,
+          errorName: 'XMoneyApiError',
+          errorCodes: [503],
+          willRetry: false,
+        }),
+      );
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+      expect(logger.error).toHaveBeenCalledTimes(1);
+    });
+
+    it('should redact sensitive data and ignore failing hooks', async () => {
+      onRequest.mockImplementation(() => {
+        throw new Error('hook failed');
+      });
+      transport.request.mockRejectedValue(new Error('card 4111111111111111 rejected'));
+
+      await expect(service.deleteCardById(1)).rejects.toBeInstanceOf(XMoneyNetworkError);
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.not.stringContaining('4111111111111111') }),
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'xMoney hook failed' }),
+      );
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially up to maxDelayMs', () => {
+      const policy = { initialDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+      expect(getBackoffDelay(0, policy)).toBe(100);
+      expect(getBackoffDelay(2, policy)).toBe(400);
+      expect(getBackoffDelay(5, policy)).toBe(1000);
+    });
+
+    it('should honour Retry-After', () => {
+      expect(getBackoffDelay(0, {}, parseRetryAfter('2'))).toBe(2000);
+      expect(parseRetryAfter('not a date')).toBeUndefined();
+    });
+  });
+});
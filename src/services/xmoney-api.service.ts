@@ -2,14 +2,49 @@ import qs from 'qs';
 import {
   xMoneyApiResponseDto,
   xMoneyCardResponseDto,
-  xMoneyApiErrorDto,
   OrderInputSavedCardDto,
+  TransactionOptionDto,
   xMoneyCreateOrderResponseDataDto,
   xMoneyGetOrderResponseDataDto,
   xMoneyGetJwtResponseDataDto,
+  RefundTransactionInputDto,
+  CaptureTransactionInputDto,
+  OrderListFiltersDto,
+  TransactionListFiltersDto,
+  xMoneyGetTransactionResponseDataDto,
+  CancelSubscriptionInputDto,
+  UpdateOrderInputDto,
+  HttpRequestDto,
+  HttpResponseDto,
+  HttpRequestEventDto,
+  HttpResponseEventDto,
+  HttpErrorEventDto,
+  CustomerInputDto,
+  UpdateCustomerInputDto,
+  CustomerListFiltersDto,
+  xMoneyCreateCustomerResponseDataDto,
+  xMoneyTransactionCustomerDataDto,
 } from '../typings/dtos';
-import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { CommonService } from './common.service';
+import { XMoneyApiError, XMoneyError, XMoneyNetworkError } from '../errors';
+import { createXMoneyApiError } from '../errors/create-xmoney-api-error';
+import { xMoneyResponseCodeEnum } from '../typings/enums';
+import { abortable, getBackoffDelay, parseRetryAfter, sleep } from '../utils/backoff';
+import { redact } from '../logging/redact';
+import {
+  recordHttpAttempt,
+  setActiveSpanAttributes,
+  TelemetryAttribute,
+  traceHttpRequest,
+} from '../telemetry/telemetry';
+
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+type HttpRequestConfig = {
+  headers?: Record<string, string>;
+  data?: string;
+  signal?: AbortSignal;
+};
 
 export class xMoneyApiService {
   private commonService: CommonService;
@@ -19,8 +54,13 @@ export class xMoneyApiService {
 
   async getCardsByxMoneyCustomerId(
     xMoneyCustomerId: number,
+    cardStatus?: string,
   ): Promise<xMoneyApiResponseDto<xMoneyCardResponseDto[]>> {
-    let baseQueryParams = `customerId=${xMoneyCustomerId}&hasToken=yes`;
+    const baseQueryParams = qs.stringify({
+      customerId: xMoneyCustomerId,
+      hasToken: 'yes',
+      cardStatus,
+    });
 
     // Return only the last saved card for now
     const response = await this.get<xMoneyApiResponseDto<xMoneyCardResponseDto[]>>(
@@ -35,25 +75,136 @@ export class xMoneyApiService {
     return response.data;
   }
 
+  async createCustomer(
+    input: CustomerInputDto,
+  ): Promise<xMoneyApiResponseDto<xMoneyCreateCustomerResponseDataDto>> {
+    const response = await this.post<xMoneyApiResponseDto<xMoneyCreateCustomerResponseDataDto>>(
+      'customer',
+      qs.stringify(input),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      },
+    );
+    return response.data;
+  }
+
+  async updateCustomer(input: UpdateCustomerInputDto): Promise<xMoneyApiResponseDto<unknown>> {
+    const { customerId, ...body } = input;
+    const response = await this.put<xMoneyApiResponseDto<unknown>>(
+      `customer/${customerId}`,
+      qs.stringify(body),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      },
+    );
+    return response.data;
+  }
+
+  async getCustomerById(
+    customerId: number,
+  ): Promise<xMoneyApiResponseDto<xMoneyTransactionCustomerDataDto>> {
+    const response = await this.get<xMoneyApiResponseDto<xMoneyTransactionCustomerDataDto>>(
+      `customer/${customerId}`,
+    );
+    return response.data;
+  }
+
+  async getCustomers(
+    filters: CustomerListFiltersDto,
+    page: number,
+    perPage: number,
+  ): Promise<xMoneyApiResponseDto<xMoneyTransactionCustomerDataDto[]>> {
+    const response = await this.get<xMoneyApiResponseDto<xMoneyTransactionCustomerDataDto[]>>(
+      `customer?${this.getListQuery(filters, page, perPage)}`,
+    );
+    return response.data;
+  }
+
   async createOrder(
     order: OrderInputSavedCardDto,
   ): Promise<xMoneyApiResponseDto<xMoneyCreateOrderResponseDataDto>> {
-    const response = await this.post<
-      string,
-      xMoneyApiResponseDto<xMoneyCreateOrderResponseDataDto>
-    >('order', qs.stringify(order), {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
+    const { idempotencyKey, transactionOption, ...body } = order;
+    const response = await this.post<xMoneyApiResponseDto<xMoneyCreateOrderResponseDataDto>>(
+      'order',
+      qs.stringify({
+        ...body,
+        transactionOption: transactionOption && this.getTransactionOption(transactionOption),
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          ...(idempotencyKey && { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }),
+        },
       },
-    });
+    );
     return response.data;
   }
 
   async getOrderByExternalId(
     externalId: string,
+    signal?: AbortSignal,
+  ): Promise<xMoneyApiResponseDto<xMoneyGetOrderResponseDataDto[]>> {
+    return await this.getOrders({ externalOrderId: externalId }, 0, 1, signal);
+  }
+
+  async getOrders(
+    filters: OrderListFiltersDto,
+    page: number,
+    perPage: number,
+    signal?: AbortSignal,
   ): Promise<xMoneyApiResponseDto<xMoneyGetOrderResponseDataDto[]>> {
     const response = await this.get<xMoneyApiResponseDto<xMoneyGetOrderResponseDataDto[]>>(
-      `order?page=0&perPage=1&externalOrderId=${externalId}`,
+      `order?${this.getListQuery(filters, page, perPage)}`,
+      { signal },
+    );
+    return response.data;
+  }
+
+  async cancelOrder(input: CancelSubscriptionInputDto): Promise<xMoneyApiResponseDto<unknown>> {
+    const { orderId, ...body } = input;
+    const response = await this.delete<xMoneyApiResponseDto<unknown>>(`order/${orderId}`, {
+      data: qs.stringify(body),
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+    });
+    return response.data;
+  }
+
+  async updateOrder(input: UpdateOrderInputDto): Promise<xMoneyApiResponseDto<unknown>> {
+    const { orderId, nextDueDate } = input;
+    const response = await this.put<xMoneyApiResponseDto<unknown>>(
+      `order/${orderId}`,
+      qs.stringify({ nextDueDate: new Date(nextDueDate).toISOString() }),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      },
+    );
+    return response.data;
+  }
+
+  async getTransactionById(
+    transactionId: number,
+  ): Promise<xMoneyApiResponseDto<xMoneyGetTransactionResponseDataDto>> {
+    const response = await this.get<xMoneyApiResponseDto<xMoneyGetTransactionResponseDataDto>>(
+      `transaction/${transactionId}`,
+    );
+    return response.data;
+  }
+
+  async getTransactions(
+    filters: TransactionListFiltersDto,
+    page: number,
+    perPage: number,
+  ): Promise<xMoneyApiResponseDto<xMoneyGetTransactionResponseDataDto[]>> {
+    const response = await this.get<xMoneyApiResponseDto<xMoneyGetTransactionResponseDataDto[]>>(
+      `transaction?${this.getListQuery(filters, page, perPage)}`,
     );
     return response.data;
   }
@@ -64,76 +215,283 @@ export class xMoneyApiService {
     return response.data;
   }
 
-  private getConfig = (): AxiosRequestConfig => {
-    return {
-      baseURL: this.commonService.getApiBaseUrl(),
+  async refundTransaction(
+    input: RefundTransactionInputDto,
+  ): Promise<xMoneyApiResponseDto<unknown>> {
+    const { transactionId, idempotencyKey, ...body } = input;
+    // a retried partial refund would refund the customer twice without an idempotency key
+    const response = await this.delete<xMoneyApiResponseDto<unknown>>(
+      `transaction/${transactionId}`,
+      {
+        data: qs.stringify(body),
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          ...(idempotencyKey && { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }),
+        },
+      },
+      !!idempotencyKey,
+    );
+    return response.data;
+  }
+
+  async captureTransaction(
+    input: CaptureTransactionInputDto,
+  ): Promise<xMoneyApiResponseDto<unknown>> {
+    const { transactionId, ...body } = input;
+    const response = await this.put<xMoneyApiResponseDto<unknown>>(
+      `transaction/${transactionId}`,
+      qs.stringify(body),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      },
+    );
+    return response.data;
+  }
+
+  async voidTransaction(transactionId: number): Promise<xMoneyApiResponseDto<unknown>> {
+    const response = await this.put<xMoneyApiResponseDto<unknown>>(
+      `transaction/${transactionId}/void`,
+    );
+    return response.data;
+  }
+
+  private getListQuery(
+    filters: OrderListFiltersDto | TransactionListFiltersDto | CustomerListFiltersDto,
+    page: number,
+    perPage: number,
+  ): string {
+    // dates are serialized as ISO 8601 strings by qs
+    return qs.stringify({ ...filters, page, perPage });
+  }
+
+  // the api expects a JSON string, unset options are left out
+  private getTransactionOption(option: TransactionOptionDto | string): string {
+    if (typeof option === 'string') {
+      return option;
+    }
+
+    return JSON.stringify({
+      isSoftDecline: option.isSoftDecline ? 'yes' : undefined,
+      initiator: option.initiator,
+      storedCredentialReason: option.storedCredentialReason,
+      originalTransactionId: option.originalTransactionId,
+    });
+  }
+
+  private async get<T = never>(
+    url: string,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponseDto<T>> {
+    return await this.request<T>('GET', url, config, true);
+  }
+
+  // POST requests are only retried when the api can deduplicate them through an idempotency key
+  private async post<T = never>(
+    url: string,
+    data?: string,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponseDto<T>> {
+    const retryable = !!config?.headers?.[IDEMPOTENCY_KEY_HEADER];
+    return await this.request<T>('POST', url, { ...config, data }, retryable);
+  }
+
+  private async put<T = never>(
+    url: string,
+    data?: string,
+    config?: HttpRequestConfig,
+  ): Promise<HttpResponseDto<T>> {
+    return await this.request<T>('PUT', url, { ...config, data }, false);
+  }
+
+  private async delete<T = never>(
+    url: string,
+    config?: HttpRequestConfig,
+    retryable = true,
+  ): Promise<HttpResponseDto<T>> {
+    return await this.request<T>('DELETE', url, config, retryable);
+  }
+
+  private request<T>(
+    method: HttpRequestDto['method'],
+    url: string,
+    config: HttpRequestConfig = {},
+    retryable: boolean,
+  ): Promise<HttpResponseDto<T>> {
+    const route = this.getRouteTemplate(url);
+
+    return traceHttpRequest(method, route, {}, () =>
+      this.sendRequest<T>(method, url, route, config, retryable),
+    );
+  }
+
+  private async sendRequest<T>(
+    method: HttpRequestDto['method'],
+    url: string,
+    route: string,
+    config: HttpRequestConfig,
+    retryable: boolean,
+  ): Promise<HttpResponseDto<T>> {
+    const request: HttpRequestDto = {
+      method,
+      url: `${this.commonService.getApiBaseUrl()}/${url}`,
       headers: {
+        ...config.headers,
         Authorization: `Bearer ${this.commonService.secretKey}`,
       },
+      body: config.data,
+      timeoutMs: this.commonService.timeoutMs,
+      signal: config.signal,
     };
-  };
 
-  private async get<T = never, R = AxiosResponse<T>>(
-    url: string,
-    config?: AxiosRequestConfig,
-  ): Promise<R> {
-    try {
-      return await axios.get(url, {
-        ...config,
-        ...this.getConfig(),
-      });
-    } catch (error: any) {
-      this.logErrorIfNeeded(error, url);
-      return error?.response;
+    for (let attempt = 0; ; attempt++) {
+      if (config.signal?.aborted) {
+        throw config.signal.reason;
+      }
+
+      let response: HttpResponseDto<T> | undefined;
+      let error: XMoneyError;
+      const startedAt = Date.now();
+      this.notifyRequest({ method, route, attempt });
+
+      try {
+        // custom transports may ignore the signal, the caller still stops waiting on abort
+        response = await abortable(this.commonService.transport.request<T>(request), config.signal);
+        if (response.status < xMoneyResponseCodeEnum.BadRequest) {
+          this.notifyResponse(
+            {
+              method,
+              route,
+              attempt,
+              status: response.status,
+              latencyMs: Date.now() - startedAt,
+              requestId: response.headers['x-request-id'],
+            },
+            this.isApiResponse(response.data) ? response.data.code : undefined,
+          );
+          return response;
+        }
+        error = createXMoneyApiError(
+          this.isApiResponse(response.data) ? response.data : undefined,
+          response.status,
+          response.headers['x-request-id'],
+        );
+      } catch (transportError: any) {
+        if (config.signal?.aborted) {
+          throw config.signal.reason;
+        }
+        error =
+          transportError instanceof XMoneyError
+            ? transportError
+            : new XMoneyNetworkError(
+                `Unable to reach the xMoney API: ${transportError?.message ?? 'unknown error'}`,
+                transportError,
+              );
+      }
+
+      const willRetry =
+        retryable && attempt < this.commonService.maxRetries && this.isRetriableError(error);
+      this.notifyError(
+        {
+          method,
+          route,
+          attempt,
+          status: response?.status,
+          latencyMs: Date.now() - startedAt,
+          requestId: error instanceof XMoneyApiError ? error.requestId : undefined,
+          errorName: error.name,
+          message: error.message,
+          errorCodes: error instanceof XMoneyApiError ? error.errors.map((e) => e.code) : [],
+          willRetry,
+        },
+        error instanceof XMoneyApiError ? error.code : undefined,
+      );
+      if (!willRetry) {
+        throw error;
+      }
+
+      const retryAfterMs = parseRetryAfter(response?.headers['retry-after']);
+      await sleep(
+        getBackoffDelay(attempt, this.commonService.backoff, retryAfterMs),
+        config.signal,
+      );
     }
   }
 
-  private async post<TIn, T = never, R = AxiosResponse<T>>(
-    url: string,
-    data?: TIn,
-    config?: AxiosRequestConfig,
-  ): Promise<R> {
-    try {
-      return await axios.post(url, data, {
-        ...config,
-        ...this.getConfig(),
-      });
-    } catch (error: any) {
-      this.logErrorIfNeeded(error, url);
-      return error?.response;
-    }
+  // ids are replaced so that spans, metrics and events share one route per endpoint
+  private getRouteTemplate(url: string): string {
+    return url
+      .split('?')[0]
+      .split('/')
+      .map((segment) => (/^[a-z-]+$/.test(segment) ? segment : ':id'))
+      .join('/');
   }
 
-  private async delete<T = never, R = AxiosResponse<T>>(
-    url: string,
-    config?: AxiosRequestConfig,
-  ): Promise<R> {
-    try {
-      return await axios.delete(url, {
-        ...config,
-        ...this.getConfig(),
-      });
-    } catch (error: any) {
-      this.logErrorIfNeeded(error, url);
-      return error?.response;
+  // error pages of proxies are not JSON, their body is not an api response
+  private isApiResponse(data: unknown): data is xMoneyApiResponseDto<unknown> {
+    return typeof data === 'object' && data !== null && !Array.isArray(data);
+  }
+
+  private isRetriableError(error: XMoneyError): boolean {
+    if (error instanceof XMoneyNetworkError) {
+      return true;
     }
+
+    return (
+      error instanceof XMoneyApiError &&
+      error.status !== undefined &&
+      (error.status === xMoneyResponseCodeEnum.TooManyRequests ||
+        error.status >= xMoneyResponseCodeEnum.InternalServerError)
+    );
+  }
+
+  private notifyRequest(event: HttpRequestEventDto): void {
+    this.notify(this.commonService.hooks.onRequest, event);
+    this.commonService.logger?.debug(redact({ message: 'xMoney API request', ...event }));
   }
 
-  private stringifyError(error: AxiosError<unknown, xMoneyApiErrorDto>): string {
-    if (typeof error?.response?.data === 'object') {
-      return JSON.stringify(error?.response?.data);
+  private notifyResponse(event: HttpResponseEventDto, code?: number): void {
+    this.recordAttempt(event, code);
+    this.notify(this.commonService.hooks.onResponse, event);
+    this.commonService.logger?.debug(redact({ message: 'xMoney API response', ...event }));
+  }
+
+  private notifyError(event: HttpErrorEventDto, code?: number): void {
+    this.recordAttempt(event, code);
+    this.notify(this.commonService.hooks.onError, event);
+
+    const entry = redact({ ...event, message: `xMoney API error: ${event.message}` });
+    if (event.willRetry) {
+      this.commonService.logger?.warn(entry);
+    } else {
+      this.commonService.logger?.error(entry);
     }
-    return error?.response?.data as string;
   }
 
-  private logErrorIfNeeded(error: AxiosError<unknown, xMoneyApiErrorDto>, url: string): void {
-    if (!this.commonService.verbose) {
+  private recordAttempt(event: HttpResponseEventDto | HttpErrorEventDto, code?: number): void {
+    setActiveSpanAttributes({
+      [TelemetryAttribute.HttpAttempt]: event.attempt,
+      [TelemetryAttribute.HttpStatusCode]: event.status,
+      [TelemetryAttribute.ResponseCode]: code,
+    });
+    recordHttpAttempt(event.latencyMs, {
+      [TelemetryAttribute.HttpMethod]: event.method,
+      [TelemetryAttribute.HttpRoute]: event.route,
+      [TelemetryAttribute.HttpStatusCode]: event.status,
+    });
+  }
+
+  // hooks must never break the request, their errors are only logged
+  private notify<E>(hook: ((event: E) => void) | undefined, event: E): void {
+    if (!hook) {
       return;
     }
 
-    console.error('An error occurred while calling Twispay API Route', {
-      route: url,
-      error: this.stringifyError(error),
-    });
+    try {
+      hook(redact(event));
+    } catch (error) {
+      this.commonService.logger?.warn(redact({ message: 'xMoney hook failed', error }));
+    }
   }
 }
@@ -0,0 +1 @@
+export { TelemetryAttribute, INSTRUMENTATION_NAME } from './telemetry';
@@ -0,0 +1,67 @@
+// Minimal structural subset of `@opentelemetry/api`, so that the package stays an optional peer dependency
+
+export type TelemetryAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface OpenTelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+}
+
+export interface OpenTelemetryTracer {
+  startActiveSpan<T>(
+    name: string,
+    options: { kind?: number; attributes?: TelemetryAttributes },
+    fn: (span: OpenTelemetrySpan) => T,
+  ): T;
+}
+
+export interface OpenTelemetryCounter {
+  add(value: number, attributes?: TelemetryAttributes): void;
+}
+
+export interface OpenTelemetryHistogram {
+  record(value: number, attributes?: TelemetryAttributes): void;
+}
+
+export interface OpenTelemetryMeter {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): OpenTelemetryCounter;
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string },
+  ): OpenTelemetryHistogram;
+}
+
+export interface OpenTelemetryApi {
+  trace: {
+    getTracer(name: string): OpenTelemetryTracer;
+    getActiveSpan(): OpenTelemetrySpan | undefined;
+  };
+  metrics: {
+    getMeter(name: string): OpenTelemetryMeter;
+    getMeterProvider(): object;
+  };
+  SpanStatusCode: { OK: number; ERROR: number };
+  SpanKind: { INTERNAL: number; CLIENT: number };
+}
+
+let openTelemetry: OpenTelemetryApi | null | undefined;
+
+/**
+ * Loads `@opentelemetry/api` lazily, resolves null when it is not installed.
+ * The lookup happens once, afterwards instrumentation costs a single null check.
+ */
+export const getOpenTelemetry = (): OpenTelemetryApi | null => {
+  if (openTelemetry === undefined) {
+    try {
+      openTelemetry = require('@opentelemetry/api');
+    } catch {
+      openTelemetry = null;
+    }
+  }
+  return openTelemetry as OpenTelemetryApi | null;
+};
@@ -0,0 +1,185 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import xMoney from '../main';
+import {
+  FiatCurrenciesEnum,
+  xMoneyCardTransactionModeEnum,
+  xMoneyOrderTypeEnum,
+  xMoneyResponseCodeEnum,
+  xMoneyTransactionMethodEnum,
+} from '../typings/enums';
+import { XMoneyValidationError } from '../errors';
+
+type FakeSpan = {
+  name: string;
+  attributes: Record<string, unknown>;
+  status?: { code: number };
+  exceptions: unknown[];
+  ended: boolean;
+};
+
+const spans: FakeSpan[] = [];
+// mirrors the async context propagation of the Node OpenTelemetry SDK
+const activeSpan = new AsyncLocalStorage<FakeSpan>();
+const histograms: Record<string, jest.Mock> = {};
+const counters: Record<string, jest.Mock> = {};
+// replaced when a test registers a new meter provider
+let meterProvider = {};
+
+jest.mock(
+  '@opentelemetry/api',
+  () => ({
+    SpanStatusCode: { OK: 1, ERROR: 2 },
+    SpanKind: { INTERNAL: 0, CLIENT: 2 },
+    trace: {
+      getTracer: () => ({
+        startActiveSpan: (name: string, options: any, fn: (span: any) => unknown) => {
+          const span: FakeSpan = {
+            name,
+            attributes: { ...options.attributes },
+            exceptions: [],
+            ended: false,
+          };
+          spans.push(span);
+          return activeSpan.run(span, () =>
+            fn({
+              setAttribute: (key: string, value: unknown) => (span.attributes[key] = value),
+              setStatus: (status: { code: number }) => (span.status = status),
+              recordException: (exception: unknown) => span.exceptions.push(exception),
+              end: () => (span.ended = true),
+            }),
+          );
+        },
+      }),
+      getActiveSpan: () => {
+        const span = activeSpan.getStore();
+        return (
+          span && {
+            setAttribute: (key: string, value: unknown) => (span.attributes[key] = value),
+          }
+        );
+      },
+    },
+    metrics: {
+      getMeterProvider: () => meterProvider,
+      getMeter: () => ({
+        createHistogram: (name: string) => ({ record: (histograms[name] = jest.fn()) }),
+        createCounter: (name: string) => ({ add: (counters[name] = jest.fn()) }),
+      }),
+    },
+  }),
+  { virtual: true },
+);
+
+describe('telemetry', () => {
+  const transport = { request: jest.fn() };
+  const xMoneyCheckout = new xMoney({
+    secretKey: 'sk_test_abc123',
+    backoff: { initialDelayMs: 1, jitter: false },
+    transport,
+  });
+
+  beforeEach(() => {
+    spans.length = 0;
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should trace a saved card charge with its soft decline retry', async () => {
+    transport.request
+      .mockResolvedValueOnce({
+        status: 400,
+        headers: {},
+        data: {
+          code: 400,
+          message: 'Soft decline',
+          error: [{ code: xMoneyResponseCodeEnum.SoftDecline, message: 'Soft decline', type: 'E' }],
+        },
+      })
+      .mockResolvedValueOnce({
+        status: 201,
+        headers: {},
+        data: { code: 201, data: { orderId: 1 } },
+      });
+
+    await xMoneyCheckout.initializeCheckoutWithSavedCard({
+      customerId: 1,
+      cardId: 2,
+      ip: '127.0.0.1',
+      amount: 10,
+      currency: FiatCurrenciesEnum.EUR,
+      externalOrderId: 'order-1',
+      orderType: xMoneyOrderTypeEnum.Purchase,
+      transactionMethod: xMoneyTransactionMethodEnum.Card,
+      cardTransactionMode: xMoneyCardTransactionModeEnum.Auth_And_Capture,
+    });
+
+    const [operation, declined, charged] = spans;
+    expect(operation).toMatchObject({
+      name: 'xmoney.initializeCheckoutWithSavedCard',
+      status: { code: 1 },
+      ended: true,
+      attributes: {
+        'xmoney.operation': 'initializeCheckoutWithSavedCard',
+        'xmoney.environment': 'test',
+        'xmoney.external_order_id': 'order-1',
+        'xmoney.soft_decline_retries': 1,
+      },
+    });
+    expect(declined).toMatchObject({
+      name: 'xmoney POST order',
+      status: { code: 2 },
+      attributes: { 'http.response.status_code': 400 },
+    });
+    expect(charged).toMatchObject({
+      status: { code: 1 },
+      attributes: { 'http.response.status_code': 201, 'xmoney.response_code': 201 },
+    });
+
+    expect(counters['xmoney.card.declines']).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ 'xmoney.soft_decline': true }),
+    );
+    expect(histograms['xmoney.http.client.duration']).toHaveBeenCalledTimes(2);
+    expect(histograms['xmoney.operation.duration']).toHaveBeenCalledWith(expect.any(Number), {
+      'xmoney.operation': 'initializeCheckoutWithSavedCard',
+      'xmoney.environment': 'test',
+      'xmoney.outcome': 'success',
+    });
+  });
+
+  it('should record errors of sync operations', () => {
+    expect(() =>
+      xMoneyCheckout.initializeCheckout({ publicKey: 'invalid', order: {} } as any),
+    ).toThrow(XMoneyValidationError);
+
+    expect(spans[0]).toMatchObject({
+      name: 'xmoney.initializeCheckout',
+      status: { code: 2 },
+      ended: true,
+      exceptions: [expect.objectContaining({ name: 'XMoneyValidationError' })],
+    });
+  });
+
+  it('should record the route template once the app registered its meter provider', async () => {
+    transport.request.mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: { code: 200, data: { id: 1 } },
+    });
+
+    await xMoneyCheckout.getTransaction(1);
+    const noopHistogram = histograms['xmoney.http.client.duration'];
+    meterProvider = {};
+    await xMoneyCheckout.getTransaction(2);
+
+    expect(noopHistogram).toHaveBeenCalledTimes(1);
+    expect(histograms['xmoney.http.client.duration']).toHaveBeenCalledWith(expect.any(Number), {
+      'http.request.method': 'GET',
+      'http.route': 'transaction/:id',
+      'http.response.status_code': 200,
+    });
+    expect(spans.map((span) => span.name)).toContain('xmoney GET transaction/:id');
+  });
+});
@@ -0,0 +1,221 @@
+import { XMoneyApiError, XMoneyCardDeclinedError } from '../errors';
+import { redact } from '../logging/redact';
+import {
+  getOpenTelemetry,
+  OpenTelemetryApi,
+  OpenTelemetryCounter,
+  OpenTelemetryHistogram,
+  OpenTelemetrySpan,
+  TelemetryAttributes,
+} from './open-telemetry';
+
+export const INSTRUMENTATION_NAME = '@xmoney/api-sdk';
+
+export const TelemetryAttribute = {
+  Operation: 'xmoney.operation',
+  Environment: 'xmoney.environment',
+  ExternalOrderId: 'xmoney.external_order_id',
+  ResponseCode: 'xmoney.response_code',
+  SoftDeclineRetries: 'xmoney.soft_decline_retries',
+  OrderPolls: 'xmoney.order_polls',
+  SoftDecline: 'xmoney.soft_decline',
+  Outcome: 'xmoney.outcome',
+  HttpMethod: 'http.request.method',
+  HttpRoute: 'http.route',
+  HttpStatusCode: 'http.response.status_code',
+  HttpAttempt: 'xmoney.http.attempt',
+} as const;
+
+type Instruments = {
+  operationDuration: OpenTelemetryHistogram;
+  httpDuration: OpenTelemetryHistogram;
+  declines: OpenTelemetryCounter;
+};
+
+// keyed on the provider, instruments created before the app registers its own stay no-ops
+const instrumentsByProvider = new WeakMap<object, Instruments>();
+
+const getInstruments = (api: OpenTelemetryApi): Instruments => {
+  const provider = api.metrics.getMeterProvider();
+  let instruments = instrumentsByProvider.get(provider);
+  if (!instruments) {
+    const meter = api.metrics.getMeter(INSTRUMENTATION_NAME);
+    instruments = {
+      operationDuration: meter.createHistogram('xmoney.operation.duration', {
+        description: 'Duration of xMoney SDK operations',
+        unit: 'ms',
+      }),
+      httpDuration: meter.createHistogram('xmoney.http.client.duration', {
+        description: 'Duration of each HTTP attempt to the xMoney API',
+        unit: 'ms',
+      }),
+      declines: meter.createCounter('xmoney.card.declines', {
+        description: 'Card declines returned by the xMoney API',
+      }),
+    };
+    instrumentsByProvider.set(provider, instruments);
+  }
+  return instruments;
+};
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  !!value && typeof (value as PromiseLike<unknown>).then === 'function';
+
+const setAttributes = (span: OpenTelemetrySpan, attributes: TelemetryAttributes): void => {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      span.setAttribute(key, value);
+    }
+  }
+};
+
+const definedAttributes = (attributes: TelemetryAttributes): TelemetryAttributes =>
+  Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+
+/**
+ * Runs `fn` inside an active span named after the operation and records its duration.
+ * Works for sync and async operations; `fn` is called directly when OpenTelemetry is not installed.
+ */
+export const traceOperation = <T>(
+  operation: string,
+  attributes: TelemetryAttributes,
+  fn: () => T,
+): T => {
+  const api = getOpenTelemetry();
+  if (!api) {
+    return fn();
+  }
+
+  const baseAttributes = { [TelemetryAttribute.Operation]: operation, ...attributes };
+  return api.trace
+    .getTracer(INSTRUMENTATION_NAME)
+    .startActiveSpan(
+      `xmoney.${operation}`,
+      { kind: api.SpanKind.INTERNAL, attributes: definedAttributes(baseAttributes) },
+      (span) => {
+        const startedAt = Date.now();
+        const finish = (error?: unknown): void => {
+          if (error) {
+            recordSpanError(api, span, error);
+          } else {
+            span.setStatus({ code: api.SpanStatusCode.OK });
+          }
+          span.end();
+
+          getInstruments(api).operationDuration.record(Date.now() - startedAt, {
+            [TelemetryAttribute.Operation]: operation,
+            [TelemetryAttribute.Environment]: attributes[TelemetryAttribute.Environment],
+            [TelemetryAttribute.Outcome]: error ? 'error' : 'success',
+          });
+        };
+
+        let result: T;
+        try {
+          result = fn();
+        } catch (error) {
+          finish(error);
+          throw error;
+        }
+
+        if (isPromiseLike(result)) {
+          return result.then(
+            (value) => {
+              finish();
+              return value;
+            },
+            (error) => {
+              finish(error);
+              throw error;
+            },
+          ) as T;
+        }
+
+        finish();
+        return result;
+      },
+    );
+};
+
+/**
+ * Same as traceOperation for a single HTTP call to the xMoney API, the span kind is CLIENT.
+ */
+export const traceHttpRequest = <T>(
+  method: string,
+  route: string,
+  attributes: TelemetryAttributes,
+  fn: () => Promise<T>,
+): Promise<T> => {
+  const api = getOpenTelemetry();
+  if (!api) {
+    return fn();
+  }
+
+  return api.trace.getTracer(INSTRUMENTATION_NAME).startActiveSpan(
+    `xmoney ${method} ${route}`,
+    {
+      kind: api.SpanKind.CLIENT,
+      attributes: definedAttributes({
+        [TelemetryAttribute.HttpMethod]: method,
+        [TelemetryAttribute.HttpRoute]: route,
+        ...attributes,
+      }),
+    },
+    (span) =>
+      fn().then(
+        (value) => {
+          span.setStatus({ code: api.SpanStatusCode.OK });
+          span.end();
+          return value;
+        },
+        (error) => {
+          recordSpanError(api, span, error);
+          span.end();
+          throw error;
+        },
+      ),
+  );
+};
+
+/**
+ * Adds attributes to the current span, e.g. from a service called inside traceOperation.
+ */
+export const setActiveSpanAttributes = (attributes: TelemetryAttributes): void => {
+  const span = getOpenTelemetry()?.trace.getActiveSpan();
+  if (span) {
+    setAttributes(span, attributes);
+  }
+};
+
+export const recordHttpAttempt = (latencyMs: number, attributes: TelemetryAttributes): void => {
+  const api = getOpenTelemetry();
+  if (api) {
+    getInstruments(api).httpDuration.record(latencyMs, definedAttributes(attributes));
+  }
+};
+
+export const recordDecline = (error: XMoneyCardDeclinedError, environment?: string): void => {
+  const api = getOpenTelemetry();
+  if (api) {
+    getInstruments(api).declines.add(
+      1,
+      definedAttributes({
+        [TelemetryAttribute.Environment]: environment,
+        [TelemetryAttribute.SoftDecline]: error.isSoftDecline,
+        [TelemetryAttribute.ResponseCode]: error.code,
+      }),
+    );
+  }
+};
+
+const recordSpanError = (api: OpenTelemetryApi, span: OpenTelemetrySpan, error: any): void => {
+  if (error instanceof XMoneyApiError) {
+    setAttributes(span, {
+      [TelemetryAttribute.ResponseCode]: error.code,
+      [TelemetryAttribute.HttpStatusCode]: error.status,
+    });
+  }
+  // only the error name and message are exported, never the request that caused it
+  const message = redact(String(error?.message ?? error));
+  span.recordException({ name: error?.name ?? 'Error', message });
+  span.setStatus({ code: api.SpanStatusCode.ERROR, message });
+};
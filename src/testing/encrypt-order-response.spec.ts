@@ -0,0 +1,54 @@
+import { OrderService } from '../services/order.service';
+import { CommonService } from '../services/common.service';
+import { encryptOrderResponse, verifyChecksum } from './encrypt-order-response';
+import { createOrderDecryptResponse } from './factories';
+import { xMoneyTransactionStatusEnum } from '../typings/enums';
+
+const SECRET_KEY = 'sk_test_0123456789abcdef0123456789abcdef';
+
+describe('testing helpers', () => {
+  const orderService = new OrderService(new CommonService({ secretKey: SECRET_KEY }));
+
+  describe('encryptOrderResponse', () => {
+    it('should encrypt a payload that decryptOrderResponse accepts', async () => {
+      const payload = createOrderDecryptResponse({
+        transactionStatus: xMoneyTransactionStatusEnum.CompleteFailed,
+      });
+      const result = encryptOrderResponse(payload, SECRET_KEY);
+
+      expect(orderService.decryptOrderResponse(result)).toEqual(payload);
+      expect(await orderService.decryptOrderResponseAsync(result)).toEqual(payload);
+    });
+
+    it('should give the same output for a fixed iv and a bare key', () => {
+      const iv = new Uint8Array(16);
+      const payload = createOrderDecryptResponse();
+
+      expect(encryptOrderResponse(payload, SECRET_KEY, iv)).toBe(
+        encryptOrderResponse(payload, '0123456789abcdef0123456789abcdef', iv),
+      );
+    });
+  });
+
+  describe('verifyChecksum', () => {
+    it('should verify the checksum of a checkout payload', () => {
+      const order = orderService.createOrder({
+        publicKey: 'pk_test_site',
+        backUrl: 'https://example.com/back',
+        cardTransactionMode: 'authAndCapture',
+        customer: { identifier: 'customer-1' },
+        order: {
+          orderId: 'order-1',
+          type: 'purchase',
+          amount: 10,
+          currency: 'EUR',
+          description: 'Order 1',
+        },
+      });
+
+      expect(verifyChecksum(order.payload, order.checksum, SECRET_KEY)).toBe(true);
+      expect(verifyChecksum(order.payload, order.checksum, 'sk_test_other')).toBe(false);
+      expect(verifyChecksum(order.payload, 'invalid', SECRET_KEY)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { CommonService } from '../services/common.service';
+import { getNodeCrypto } from '../utils/node-crypto';
+
+const AES_IV_LENGTH = 16;
+
+// accepts a full `sk_<env>_key` secret key as well as the bare key
+const getKey = (secretKey: string): string => new CommonService({ secretKey }).getPrivateKey();
+
+/**
+ * Encrypts an IPN / backUrl payload the way xMoney does, the result can be passed to
+ * `decryptOrderResponse` or posted as the `result` field of a webhook request.
+ * Pass a fixed `iv` to get the same output on every run.
+ */
+export const encryptOrderResponse = (
+  data: unknown,
+  secretKey: string,
+  iv: Uint8Array = getNodeCrypto().randomBytes(AES_IV_LENGTH),
+): string => {
+  const cipher = getNodeCrypto().createCipheriv('aes-256-cbc', getKey(secretKey), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(data)), cipher.final()]);
+
+  return `${Buffer.from(iv).toString('base64')},${encrypted.toString('base64')}`;
+};
+
+/**
+ * Checks that `checksum` is the HMAC-SHA512 signature of the base64 `payload` of an
+ * `OrderOutputDto`, as verified by the hosted checkout.
+ */
+export const verifyChecksum = (payload: string, checksum: string, secretKey: string): boolean => {
+  const crypto = getNodeCrypto();
+  const expected = crypto
+    .createHmac('sha512', getKey(secretKey))
+    .update(Buffer.from(payload, 'base64'))
+    .digest();
+  const actual = Buffer.from(checksum, 'base64');
+
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
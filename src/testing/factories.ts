@@ -0,0 +1,116 @@
+import {
+  xMoneyCardResponseDto,
+  xMoneyGetOrderResponseDataDto,
+  xMoneyOrderDecryptResponseDto,
+  xMoneyTransactionCustomerDataDto,
+} from '../typings/dtos';
+import {
+  xMoneyOrderStatusEnum,
+  xMoneyTransactionMethodEnum,
+  xMoneyTransactionStatusEnum,
+  xMoneyTransactionTypeEnum,
+} from '../typings/enums';
+
+// fixed values keep snapshots and checksums stable between runs
+const FIXTURE_DATE = '2025-01-01T00:00:00.000Z';
+const FIXTURE_TIMESTAMP = Date.parse(FIXTURE_DATE) / 1000;
+
+/**
+ * Decrypted IPN / backUrl payload of a completed card payment.
+ */
+export const createOrderDecryptResponse = (
+  overrides: Partial<xMoneyOrderDecryptResponseDto> = {},
+): xMoneyOrderDecryptResponseDto => ({
+  transactionStatus: xMoneyTransactionStatusEnum.CompleteOk,
+  transactionType: xMoneyTransactionTypeEnum.Deposit,
+  orderId: 1,
+  externalOrderId: 'order-1',
+  transactionId: 1,
+  transactionMethod: xMoneyTransactionMethodEnum.Card,
+  customerId: 1,
+  identifier: 'customer-1',
+  amount: 10,
+  currency: 'EUR',
+  customData: null,
+  customFields: null,
+  timestamp: FIXTURE_TIMESTAMP,
+  cardId: 1,
+  ...overrides,
+});
+
+/**
+ * Saved card as returned by the `card` route.
+ */
+export const createCardResponse = (
+  overrides: Partial<xMoneyCardResponseDto> = {},
+): xMoneyCardResponseDto => ({
+  id: 1,
+  customerId: 1,
+  type: 'visa',
+  cardNumber: '411111******1111',
+  expiryMonth: '12',
+  expiryYear: '2099',
+  nameOnCard: 'Test Card',
+  cardHolderCountry: 'RO',
+  cardHolderState: '',
+  cardProvider: 'visa',
+  hasToken: true,
+  cardStatus: 'active',
+  binInfo: {
+    bin: '411111',
+    brand: 'VISA',
+    type: 'CREDIT',
+    level: 'CLASSIC',
+    countryCode: 'US',
+    bank: 'Test Bank',
+  },
+  ...overrides,
+});
+
+/**
+ * Completed purchase order as returned by the `order` route.
+ */
+export const createGetOrderResponseData = (
+  overrides: Partial<xMoneyGetOrderResponseDataDto> = {},
+): xMoneyGetOrderResponseDataDto => ({
+  id: 1,
+  siteId: 1,
+  customerId: 1,
+  externalOrderId: 'order-1',
+  orderType: 'purchase',
+  orderStatus: xMoneyOrderStatusEnum.CompleteOk,
+  amount: 10,
+  currency: 'EUR',
+  description: 'Order 1',
+  invoiceEmail: '',
+  createdAt: new Date(FIXTURE_DATE),
+  intervalType: '',
+  intervalValue: 0,
+  retryPayment: '',
+  nextDueDate: new Date(FIXTURE_DATE),
+  transactionMethod: xMoneyTransactionMethodEnum.Card,
+  ...overrides,
+});
+
+/**
+ * Customer as returned by the `customer` route.
+ */
+export const createCustomerResponse = (
+  overrides: Partial<xMoneyTransactionCustomerDataDto> = {},
+): xMoneyTransactionCustomerDataDto => ({
+  id: 1,
+  siteId: 1,
+  identifier: 'customer-1',
+  firstName: 'John',
+  lastName: 'Doe',
+  country: 'RO',
+  state: '',
+  city: 'Bucharest',
+  zipCode: 10001,
+  address: '',
+  phone: '',
+  email: 'john.doe@example.com',
+  creationDate: new Date(FIXTURE_DATE),
+  creationTimestamp: FIXTURE_TIMESTAMP,
+  ...overrides,
+});
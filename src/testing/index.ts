@@ -0,0 +1,3 @@
+export * from './encrypt-order-response';
+export * from './factories';
+export * from './mock-xmoney-server';
@@ -0,0 +1,240 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import xMoney, { createHttpWebhookListener, XMoneyAuthenticationError } from '../main';
+import {
+  xMoneyCardTransactionModeEnum,
+  xMoneyOrderStatusEnum,
+  xMoneyOrderTypeEnum,
+  xMoneyTransactionMethodEnum,
+  xMoneyTransactionStatusEnum,
+} from '../typings/enums';
+import { OrderInputSavedCardDto, xMoneyOrderDecryptResponseDto } from '../typings/dtos';
+import { createMockXMoneyServer, MockXMoneyServer } from './mock-xmoney-server';
+
+const SECRET_KEY = 'sk_test_0123456789abcdef0123456789abcdef';
+
+describe('createMockXMoneyServer', () => {
+  let server: MockXMoneyServer;
+  let ipnServer: Server;
+  let xMoneyCheckout: xMoney;
+  const receivedIpns: xMoneyOrderDecryptResponseDto[] = [];
+
+  const savedCardCharge = (cardId: number, customerId: number): OrderInputSavedCardDto => ({
+    customerId,
+    cardId,
+    ip: '127.0.0.1',
+    amount: 25,
+    currency: 'EUR',
+    externalOrderId: `charge-${cardId}`,
+    orderType: xMoneyOrderTypeEnum.Purchase,
+    transactionMethod: xMoneyTransactionMethodEnum.Card,
+    cardTransactionMode: xMoneyCardTransactionModeEnum.Auth_And_Capture,
+  });
+
+  beforeAll(async () => {
+    // the handler needs the mock server url, which is only known once the IPN server listens
+    let ipnListener: ReturnType<typeof createHttpWebhookListener>;
+    ipnServer = createServer((req, res) => ipnListener(req, res));
+    await new Promise<void>((resolve) => ipnServer.listen(0, '127.0.0.1', resolve));
+
+    server = await createMockXMoneyServer({
+      secretKey: SECRET_KEY,
+      ipnUrl: `http://127.0.0.1:${(ipnServer.address() as AddressInfo).port}`,
+      softDeclineCardIds: [1001],
+      threeDSecureCardIds: [1002],
+    });
+    xMoneyCheckout = new xMoney({
+      secretKey: SECRET_KEY,
+      apiBaseUrl: server.apiBaseUrl,
+      checkoutUrl: server.checkoutUrl,
+      backoff: { initialDelayMs: 1, jitter: false },
+    });
+    ipnListener = createHttpWebhookListener(
+      xMoneyCheckout.createWebhookHandler({
+        onEvent: (event) => {
+          receivedIpns.push(event.payload);
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    server.reset();
+    receivedIpns.length = 0;
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await new Promise((resolve) => ipnServer.close(resolve));
+  });
+
+  it('should complete a hosted checkout and post the encrypted IPN', async () => {
+    const form = xMoneyCheckout.getHostedCheckoutForm({
+      publicKey: 'pk_test_site',
+      backUrl: 'https://example.com/back',
+      cardTransactionMode: 'authAndCapture',
+      saveCard: true,
+      customer: { identifier: 'customer-1' },
+      order: {
+        orderId: 'order-1',
+        type: 'purchase',
+        amount: 10,
+        currency: 'EUR',
+        description: 'Order 1',
+      },
+    });
+
+    const response = await fetch(form.action, {
+      method: form.method,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(form.fields),
+    });
+    const html = await response.text();
+    const result = html.match(/name="result" value="([^"]+)"/)?.[1] ?? '';
+
+    expect(html).toContain('action="https://example.com/back"');
+    expect(xMoneyCheckout.decryptOrderResponse(result)).toMatchObject({
+      externalOrderId: 'order-1',
+      transactionStatus: xMoneyTransactionStatusEnum.CompleteOk,
+      amount: 10,
+    });
+    expect(receivedIpns).toHaveLength(1);
+    expect(server.ipns[0].deliveryError).toBeUndefined();
+
+    const customerId = server.getCustomerId('customer-1');
+    const cards = await xMoneyCheckout.getCards(customerId);
+    expect(cards.data).toHaveLength(1);
+    expect((await xMoneyCheckout.getCards(customerId, { cardStatus: 'blocked' })).data).toEqual([]);
+    expect((await xMoneyCheckout.getOrder('order-1')).data?.customerId).toBe(customerId);
+  });
+
+  it('should void the card save auth once the IPN reports the saved card', async () => {
+    const { payload, checksum } = xMoneyCheckout.initializeCardSave({
+      publicKey: 'pk_test_site',
+      backUrl: 'https://example.com/back',
+      customer: { identifier: 'customer-1' },
+      order: { orderId: 'save-card-1', description: 'Save card' },
+      verification: { mode: 'auth', amount: 1, currency: 'RON', release: true },
+    });
+
+    await fetch(server.checkoutUrl, {
+      method: 'POST',
+      body: new URLSearchParams({ jsonRequest: payload, checksum }),
+    });
+
+    expect(server.cards).toHaveLength(1);
+    expect(server.transactions[0]).toMatchObject({
+      amount: 1,
+      currency: 'RON',
+      transactionStatus: xMoneyTransactionStatusEnum.VoidOk,
+    });
+    // the handlers of the card save IPN run before its auth is voided
+    expect(receivedIpns.map((ipn) => ipn.transactionStatus)).toEqual([
+      xMoneyTransactionStatusEnum.CompleteOk,
+      xMoneyTransactionStatusEnum.VoidOk,
+    ]);
+  });
+
+  it('should reject a hosted checkout with an invalid checksum', async () => {
+    const form = xMoneyCheckout.getHostedCheckoutForm({
+      publicKey: 'pk_test_site',
+      backUrl: 'https://example.com/back',
+      cardTransactionMode: 'authAndCapture',
+      customer: { identifier: 'customer-1' },
+      order: {
+        orderId: 'order-1',
+        type: 'purchase',
+        amount: 10,
+        currency: 'EUR',
+        description: 'x',
+      },
+    });
+
+    const response = await fetch(form.action, {
+      method: 'POST',
+      body: new URLSearchParams({ ...form.fields, checksum: 'invalid' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(server.orders).toHaveLength(0);
+  });
+
+  it('should retry a soft declined saved card charge', async () => {
+    const card = server.addCard({ id: 1001, customerId: 7 });
+
+    const result = await xMoneyCheckout.initializeCheckoutWithSavedCard(
+      savedCardCharge(card.id, 7),
+    );
+
+    expect(result.status).toBe('completed');
+    expect(server.transactions).toHaveLength(1);
+    expect(receivedIpns[0].cardId).toBe(1001);
+  });
+
+  it('should complete a 3-D Secure charge once the customer reaches the redirect', async () => {
+    server.addCard({ id: 1002, customerId: 7 });
+
+    const result = await xMoneyCheckout.initializeCheckoutWithSavedCard(savedCardCharge(1002, 7));
+    expect(result.status).toBe('requires_action');
+    expect((await xMoneyCheckout.confirmOrder('charge-1002')).status).toBe('pending');
+
+    if (result.status === 'requires_action') {
+      await fetch(result.redirect.url, {
+        method: 'POST',
+        body: new URLSearchParams(result.redirect.params),
+      });
+    }
+
+    expect((await xMoneyCheckout.confirmOrder('charge-1002')).status).toBe('completed');
+    expect(receivedIpns).toHaveLength(1);
+  });
+
+  it('should wait for a 3-D Secure charge to complete', async () => {
+    server.addCard({ id: 1002, customerId: 7 });
+
+    const result = await xMoneyCheckout.initializeCheckoutWithSavedCard(savedCardCharge(1002, 7));
+    const completion = xMoneyCheckout.waitForOrderCompletion('charge-1002', { intervalMs: 5 });
+
+    if (result.status === 'requires_action') {
+      await fetch(result.redirect.url, {
+        method: 'POST',
+        body: new URLSearchParams(result.redirect.params),
+      });
+    }
+
+    expect((await completion).orderStatus).toBe(xMoneyOrderStatusEnum.CompleteOk);
+  });
+
+  it('should charge a 3-D Secure card without the customer for a merchant initiated charge', async () => {
+    server.addCard({ id: 1002, customerId: 7 });
+
+    const result = await xMoneyCheckout.initializeCheckoutWithSavedCard({
+      ...savedCardCharge(1002, 7),
+      transactionOption: { initiator: 'merchant', storedCredentialReason: 'unscheduled' },
+    });
+
+    expect(result.status).toBe('completed');
+    expect(receivedIpns).toHaveLength(1);
+  });
+
+  it('should create, update and find customers', async () => {
+    const created = await xMoneyCheckout.createCustomer({ identifier: 'user-1', city: 'Iasi' });
+    await xMoneyCheckout.updateCustomer({ customerId: created.data!.id, city: 'Cluj' });
+
+    const customer = await xMoneyCheckout.findCustomerByIdentifier('user-1');
+    expect(customer).toMatchObject({ id: created.data!.id, city: 'Cluj' });
+    expect((await xMoneyCheckout.getCustomer(created.data!.id)).data?.identifier).toBe('user-1');
+    await expect(xMoneyCheckout.createCustomer({ identifier: 'user-1' })).rejects.toThrow(
+      'already exists',
+    );
+  });
+
+  it('should reject requests signed with another secret key', async () => {
+    const otherClient = new xMoney({
+      secretKey: 'sk_test_fedcba9876543210fedcba9876543210',
+      apiBaseUrl: server.apiBaseUrl,
+    });
+
+    await expect(otherClient.getSessionToken()).rejects.toBeInstanceOf(XMoneyAuthenticationError);
+  });
+});
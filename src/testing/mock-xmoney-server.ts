@@ -0,0 +1,675 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import qs from 'qs';
+import { CommonService } from '../services/common.service';
+import {
+  xMoneyApiResponseDto,
+  xMoneyCardResponseDto,
+  xMoneyCreateOrderResponseDataDto,
+  xMoneyGetOrderResponseDataDto,
+  xMoneyGetTransactionResponseDataDto,
+  xMoneyOrder,
+  xMoneyOrderDecryptResponseDto,
+  xMoneyTransactionCustomerDataDto,
+} from '../typings/dtos';
+import {
+  xMoneyFormMethodEnum,
+  xMoneyOrderStatusEnum,
+  xMoneyResponseCodeEnum,
+  xMoneyTransactionMethodEnum,
+  xMoneyTransactionStatusEnum,
+  xMoneyTransactionTypeEnum,
+} from '../typings/enums';
+import { escapeHtml } from '../utils/escape';
+import { getAutoSubmitFormHtml } from '../utils/redirect-form';
+import { readRequestBody } from '../webhooks/adapters/read-request-body';
+import { encryptOrderResponse, verifyChecksum } from './encrypt-order-response';
+import { createCardResponse, createCustomerResponse } from './factories';
+
+const MOCK_SITE_ID = 1;
+// query parameters of the list routes compared as strings, see getListQuery
+const ORDER_FILTERS = ['orderStatus', 'orderType', 'customerId', 'externalOrderId', 'currency'];
+const CUSTOMER_FILTERS = ['identifier', 'email', 'country'];
+const TRANSACTION_FILTERS = [
+  'transactionStatus',
+  'transactionType',
+  'customerId',
+  'orderId',
+  'currency',
+];
+
+export type MockXMoneyServerOptions = {
+  // checksums are verified and IPNs encrypted with this key, as on the real checkout
+  secretKey: string;
+  // defaults to a random free port
+  port?: number;
+  // receives every IPN as a form-encoded `result` field
+  ipnUrl?: string;
+  // the first charge of these cards fails with a soft decline (code 839)
+  softDeclineCardIds?: number[];
+  // charges of these cards are declined by the issuer
+  declinedCardIds?: number[];
+  // customer initiated charges of these cards require a 3-D Secure redirect
+  threeDSecureCardIds?: number[];
+};
+
+export type MockXMoneyIpn = {
+  payload: xMoneyOrderDecryptResponseDto;
+  // the encrypted `result` posted to the ipnUrl and the backUrl
+  result: string;
+  // set when the ipnUrl could not be reached or did not answer 2xx
+  deliveryError?: string;
+};
+
+type MockXMoneyOrder = xMoneyGetOrderResponseDataDto & {
+  identifier: string;
+  customData: string | null;
+};
+
+/**
+ * Local stand-in for the xMoney api and hosted checkout. Pass `apiBaseUrl` and `checkoutUrl`
+ * to `new xMoney(...)` to run the checkout, saved card, 3-D Secure and IPN flows offline.
+ */
+export class MockXMoneyServer {
+  public readonly orders: MockXMoneyOrder[] = [];
+  public readonly transactions: xMoneyGetTransactionResponseDataDto[] = [];
+  public readonly cards: xMoneyCardResponseDto[] = [];
+  public readonly customers: xMoneyTransactionCustomerDataDto[] = [];
+  public readonly ipns: MockXMoneyIpn[] = [];
+
+  private server: Server;
+  private secretKey: string;
+  private options: MockXMoneyServerOptions;
+  private lastId = 0;
+  private baseUrl = '';
+
+  public constructor(options: MockXMoneyServerOptions) {
+    this.options = options;
+    this.secretKey = new CommonService({ secretKey: options.secretKey }).getPrivateKey();
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error: any) =>
+        this.sendJson(res, xMoneyResponseCodeEnum.InternalServerError, {
+          code: xMoneyResponseCodeEnum.InternalServerError,
+          message: String(error?.message ?? error),
+        }),
+      );
+    });
+  }
+
+  public get url(): string {
+    return this.baseUrl;
+  }
+
+  public get apiBaseUrl(): string {
+    return `${this.baseUrl}/api`;
+  }
+
+  // the hosted checkout, the order form is posted to its root
+  public get checkoutUrl(): string {
+    return this.baseUrl;
+  }
+
+  public listen(): Promise<this> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 0, '127.0.0.1', () => {
+        const { port } = this.server.address() as AddressInfo;
+        this.baseUrl = `http://127.0.0.1:${port}`;
+        resolve(this);
+      });
+    });
+  }
+
+  public close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  public reset(): void {
+    this.orders.length = 0;
+    this.transactions.length = 0;
+    this.cards.length = 0;
+    this.ipns.length = 0;
+    this.customers.length = 0;
+  }
+
+  public addCard(
+    card: Partial<xMoneyCardResponseDto> & Pick<xMoneyCardResponseDto, 'customerId'>,
+  ): xMoneyCardResponseDto {
+    const saved = createCardResponse({ id: this.nextId(), ...card });
+    this.cards.push(saved);
+    return saved;
+  }
+
+  public addCustomer(
+    customer: Partial<xMoneyTransactionCustomerDataDto> &
+      Pick<xMoneyTransactionCustomerDataDto, 'identifier'>,
+  ): xMoneyTransactionCustomerDataDto {
+    const creationDate = new Date();
+    const saved = createCustomerResponse({
+      id: this.nextId(),
+      siteId: MOCK_SITE_ID,
+      creationDate,
+      creationTimestamp: Math.floor(creationDate.getTime() / 1000),
+      ...customer,
+    });
+    this.customers.push(saved);
+    return saved;
+  }
+
+  // the customer is created by its first checkout, as on the real api
+  public getCustomerId(identifier: string): number {
+    const customer =
+      this.customers.find((saved) => saved.identifier === identifier) ??
+      this.addCustomer({ identifier });
+    return customer.id;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.baseUrl);
+    const body = qs.parse(String(await readRequestBody(req))) as Record<string, string>;
+    const method = req.method ?? 'GET';
+
+    if (url.pathname === '/' && method === 'POST') {
+      return await this.handleHostedCheckout(body, res);
+    }
+    const threeDSecure = url.pathname.match(/^\/3ds\/(\d+)$/);
+    if (threeDSecure) {
+      return await this.handleThreeDSecure(Number(threeDSecure[1]), res);
+    }
+    if (!url.pathname.startsWith('/api/')) {
+      return this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Not found');
+    }
+
+    if (req.headers.authorization !== `Bearer ${this.secretKey}`) {
+      return this.sendError(res, xMoneyResponseCodeEnum.Unauthorized, 'Invalid secret key');
+    }
+
+    const route = `${method} ${url.pathname.slice('/api'.length)}`;
+    const query = qs.parse(url.search.slice(1)) as Record<string, string>;
+    // e.g. /api/transaction/12/void
+    const resourceId = Number(url.pathname.split('/')[3]);
+
+    switch (route.replace(/\/\d+/g, '/:id')) {
+      case 'GET /auth/session-token':
+        return this.sendJson(res, xMoneyResponseCodeEnum.Success, {
+          code: xMoneyResponseCodeEnum.Success,
+          message: 'Success',
+          data: { token: `mock-session-token-${this.nextId()}` },
+        });
+      case 'GET /card':
+        return this.sendList(
+          res,
+          this.cards.filter(
+            (card) =>
+              (!query.customerId || card.customerId === Number(query.customerId)) &&
+              (query.hasToken !== 'yes' || card.hasToken) &&
+              (!query.cardStatus || card.cardStatus === query.cardStatus),
+          ),
+          query,
+        );
+      case 'DELETE /card/:id':
+        return this.removeCard(resourceId, res);
+      case 'POST /customer':
+        return this.createCustomer(body, res);
+      case 'GET /customer':
+        return this.sendList(
+          res,
+          this.customers.filter((customer) =>
+            this.matchesFilters(customer, query, CUSTOMER_FILTERS, 'creationDate'),
+          ),
+          query,
+        );
+      case 'GET /customer/:id': {
+        const customer = this.find(this.customers, resourceId);
+        return customer
+          ? this.sendJson(res, xMoneyResponseCodeEnum.Success, {
+              code: xMoneyResponseCodeEnum.Success,
+              message: 'Success',
+              data: customer,
+            })
+          : this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Customer not found');
+      }
+      case 'PUT /customer/:id': {
+        const customer = this.find(this.customers, resourceId);
+        if (!customer) {
+          return this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Customer not found');
+        }
+        const { tags: _tags, ...fields } = body;
+        Object.assign(customer, fields);
+        return this.sendSuccess(res);
+      }
+      case 'POST /order':
+        return await this.handleSavedCardOrder(body, res);
+      case 'GET /order':
+        return this.sendList(
+          res,
+          this.orders
+            .filter((order) => this.matchesFilters(order, query, ORDER_FILTERS))
+            .map(({ identifier: _identifier, customData: _customData, ...order }) => order),
+          query,
+        );
+      case 'DELETE /order/:id':
+        return this.find(this.orders, resourceId)
+          ? this.sendSuccess(res)
+          : this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Order not found');
+      case 'PUT /order/:id': {
+        const order = this.find(this.orders, resourceId);
+        if (!order) {
+          return this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Order not found');
+        }
+        if (body.nextDueDate) {
+          order.nextDueDate = new Date(body.nextDueDate);
+        }
+        return this.sendSuccess(res);
+      }
+      case 'GET /transaction':
+        return this.sendList(
+          res,
+          this.transactions.filter((transaction) =>
+            this.matchesFilters(transaction, query, TRANSACTION_FILTERS),
+          ),
+          query,
+        );
+      case 'GET /transaction/:id': {
+        const transaction = this.find(this.transactions, resourceId);
+        return transaction
+          ? this.sendJson(res, xMoneyResponseCodeEnum.Success, {
+              code: xMoneyResponseCodeEnum.Success,
+              message: 'Success',
+              data: transaction,
+            })
+          : this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Transaction not found');
+      }
+      case 'DELETE /transaction/:id':
+        return await this.updateTransaction(resourceId, xMoneyTransactionStatusEnum.RefundOk, res);
+      case 'PUT /transaction/:id':
+        return await this.updateTransaction(
+          resourceId,
+          xMoneyTransactionStatusEnum.CompleteOk,
+          res,
+        );
+      case 'PUT /transaction/:id/void':
+        return await this.updateTransaction(resourceId, xMoneyTransactionStatusEnum.VoidOk, res);
+      default:
+        return this.sendError(res, xMoneyResponseCodeEnum.NotFound, `Unknown route ${route}`);
+    }
+  }
+
+  private async handleHostedCheckout(
+    body: Record<string, string>,
+    res: ServerResponse,
+  ): Promise<void> {
+    if (!verifyChecksum(body.jsonRequest ?? '', body.checksum ?? '', this.secretKey)) {
+      return this.sendError(res, xMoneyResponseCodeEnum.BadRequest, 'Invalid checksum');
+    }
+    const jsonText = Buffer.from(body.jsonRequest, 'base64').toString('utf8');
+
+    // the signed order also carries the optional fields of OrderInputDto
+    const input = JSON.parse(jsonText) as xMoneyOrder & { customData?: string };
+    const { tags: _tags, ...customer } = input.customer;
+    const customerId =
+      this.customers.find((saved) => saved.identifier === customer.identifier)?.id ??
+      this.addCustomer(customer).id;
+    const card = input.saveCard ? this.addCard({ customerId }) : undefined;
+    const order = this.addOrder({
+      customerId,
+      identifier: input.customer.identifier,
+      externalOrderId: input.order.orderId,
+      orderType: input.order.type,
+      amount: input.order.amount,
+      currency: input.order.currency,
+      description: input.order.description,
+      invoiceEmail: input.invoiceEmail ?? '',
+      intervalType: input.order.intervalType ?? '',
+      intervalValue: Number(input.order.intervalValue ?? 0),
+      retryPayment: input.order.retryPayment ?? '',
+      customData: input.customData ?? null,
+    });
+    const transaction = this.addTransaction(order, input.order.trialAmount ?? order.amount, card);
+
+    const ipn = await this.sendIpn(order, transaction);
+    res.statusCode = xMoneyResponseCodeEnum.Success;
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.end(
+      getAutoSubmitFormHtml({
+        action: input.backUrl,
+        method: 'post',
+        fields: { result: ipn.result },
+      }),
+    );
+  }
+
+  // charge of a saved card, see OrderService.createOrderWithSavedCard
+  private async handleSavedCardOrder(
+    body: Record<string, string>,
+    res: ServerResponse,
+  ): Promise<void> {
+    const cardId = Number(body.cardId);
+    const card = this.cards.find(
+      (saved) =>
+        saved.id === cardId && saved.customerId === Number(body.customerId) && saved.hasToken,
+    );
+    if (!card) {
+      return this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Card not found');
+    }
+
+    if (this.options.declinedCardIds?.includes(cardId)) {
+      return this.sendError(res, xMoneyResponseCodeEnum.PaymentRequired, 'Card declined', [
+        xMoneyResponseCodeEnum.PaymentRequired,
+      ]);
+    }
+    const transactionOption = body.transactionOption ? JSON.parse(body.transactionOption) : {};
+    if (
+      this.options.softDeclineCardIds?.includes(cardId) &&
+      transactionOption.isSoftDecline !== 'yes'
+    ) {
+      return this.sendError(res, xMoneyResponseCodeEnum.BadRequest, 'Soft decline', [
+        xMoneyResponseCodeEnum.SoftDecline,
+      ]);
+    }
+
+    const identifier =
+      this.find(this.customers, card.customerId)?.identifier ?? String(card.customerId);
+    const order = this.addOrder({
+      customerId: card.customerId,
+      identifier,
+      externalOrderId: body.externalOrderId,
+      orderType: body.orderType,
+      amount: Number(body.amount),
+      currency: body.currency,
+      description: '',
+      invoiceEmail: '',
+      intervalType: '',
+      intervalValue: 0,
+      retryPayment: '',
+      customData: null,
+    });
+    const data: xMoneyCreateOrderResponseDataDto = {
+      orderId: order.id,
+      transactionId: 0,
+      cardId,
+      isRedirect: false,
+      is3d: 0,
+    };
+
+    // merchant initiated charges are out of scope of 3-D Secure, the customer is not present
+    if (
+      this.options.threeDSecureCardIds?.includes(cardId) &&
+      transactionOption.initiator !== 'merchant'
+    ) {
+      order.orderStatus = xMoneyOrderStatusEnum.InProgress;
+      const transaction = this.addTransaction(
+        order,
+        order.amount,
+        card,
+        xMoneyTransactionStatusEnum.InProgress,
+      );
+      Object.assign(data, {
+        transactionId: transaction.id,
+        isRedirect: true,
+        is3d: 1,
+        redirect: {
+          url: `${this.baseUrl}/3ds/${transaction.id}`,
+          formMethod: xMoneyFormMethodEnum.Post,
+          params: { PaReq: `mock-pareq-${transaction.id}` },
+        },
+      });
+    } else {
+      const transaction = this.addTransaction(order, order.amount, card);
+      data.transactionId = transaction.id;
+      await this.sendIpn(order, transaction);
+    }
+
+    this.sendJson(res, xMoneyResponseCodeEnum.Created, {
+      code: xMoneyResponseCodeEnum.Created,
+      message: 'Created',
+      data,
+    });
+  }
+
+  // the page of the issuer, completes the pending charge as soon as the customer reaches it
+  private async handleThreeDSecure(transactionId: number, res: ServerResponse): Promise<void> {
+    const transaction = this.find(this.transactions, transactionId);
+    const order = transaction && this.find(this.orders, transaction.orderId);
+    if (!transaction || !order) {
+      return this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Transaction not found');
+    }
+
+    if (transaction.transactionStatus === xMoneyTransactionStatusEnum.InProgress) {
+      transaction.transactionStatus = xMoneyTransactionStatusEnum.CompleteOk;
+      order.orderStatus = xMoneyOrderStatusEnum.CompleteOk;
+      await this.sendIpn(order, transaction);
+    }
+
+    res.statusCode = xMoneyResponseCodeEnum.Success;
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.end(`<p>3-D Secure completed for order ${escapeHtml(order.externalOrderId)}</p>`);
+  }
+
+  private async updateTransaction(
+    transactionId: number,
+    transactionStatus: xMoneyTransactionStatusEnum,
+    res: ServerResponse,
+  ): Promise<void> {
+    const transaction = this.find(this.transactions, transactionId);
+    const order = transaction && this.find(this.orders, transaction.orderId);
+    if (!transaction || !order) {
+      return this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Transaction not found');
+    }
+
+    transaction.transactionStatus = transactionStatus;
+    await this.sendIpn(order, transaction);
+    this.sendSuccess(res);
+  }
+
+  private createCustomer(body: Record<string, string>, res: ServerResponse): void {
+    if (!body.identifier) {
+      return this.sendError(res, xMoneyResponseCodeEnum.BadRequest, 'identifier is required');
+    }
+    if (this.customers.some((customer) => customer.identifier === body.identifier)) {
+      return this.sendError(
+        res,
+        xMoneyResponseCodeEnum.BadRequest,
+        'A customer with this identifier already exists',
+      );
+    }
+
+    const { tags: _tags, ...fields } = body;
+    const customer = this.addCustomer({
+      ...fields,
+      identifier: body.identifier,
+    } as Partial<xMoneyTransactionCustomerDataDto> & { identifier: string });
+    this.sendJson(res, xMoneyResponseCodeEnum.Created, {
+      code: xMoneyResponseCodeEnum.Created,
+      message: 'Created',
+      data: { id: customer.id },
+    });
+  }
+
+  private removeCard(cardId: number, res: ServerResponse): void {
+    const index = this.cards.findIndex((card) => card.id === cardId);
+    if (index === -1) {
+      return this.sendError(res, xMoneyResponseCodeEnum.NotFound, 'Card not found');
+    }
+    this.cards.splice(index, 1);
+    this.sendSuccess(res);
+  }
+
+  private addOrder(
+    order: Omit<
+      MockXMoneyOrder,
+      'id' | 'siteId' | 'orderStatus' | 'createdAt' | 'nextDueDate' | 'transactionMethod'
+    >,
+  ): MockXMoneyOrder {
+    const createdAt = new Date();
+    const saved: MockXMoneyOrder = {
+      ...order,
+      id: this.nextId(),
+      siteId: MOCK_SITE_ID,
+      orderStatus: xMoneyOrderStatusEnum.CompleteOk,
+      createdAt,
+      nextDueDate: this.getNextDueDate(createdAt, order.intervalType, order.intervalValue),
+      transactionMethod: xMoneyTransactionMethodEnum.Card,
+    };
+    this.orders.push(saved);
+    return saved;
+  }
+
+  private addTransaction(
+    order: MockXMoneyOrder,
+    amount: number,
+    card?: xMoneyCardResponseDto,
+    transactionStatus = xMoneyTransactionStatusEnum.CompleteOk,
+  ): xMoneyGetTransactionResponseDataDto {
+    const transaction: xMoneyGetTransactionResponseDataDto = {
+      id: this.nextId(),
+      siteId: MOCK_SITE_ID,
+      orderId: order.id,
+      customerId: order.customerId,
+      transactionType: xMoneyTransactionTypeEnum.Deposit,
+      transactionMethod: xMoneyTransactionMethodEnum.Card,
+      transactionStatus,
+      amount,
+      currency: order.currency,
+      description: order.description,
+      cardId: card?.id,
+      createdAt: new Date(),
+    };
+    this.transactions.push(transaction);
+    return transaction;
+  }
+
+  private async sendIpn(
+    order: MockXMoneyOrder,
+    transaction: xMoneyGetTransactionResponseDataDto,
+  ): Promise<MockXMoneyIpn> {
+    const payload: xMoneyOrderDecryptResponseDto = {
+      transactionStatus: transaction.transactionStatus,
+      transactionType: transaction.transactionType,
+      orderId: order.id,
+      externalOrderId: order.externalOrderId,
+      transactionId: transaction.id,
+      transactionMethod: transaction.transactionMethod,
+      customerId: order.customerId,
+      identifier: order.identifier,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      customData: this.parseCustomData(order.customData),
+      customFields: null,
+      timestamp: Math.floor(Date.now() / 1000),
+      cardId: transaction.cardId,
+    };
+    const ipn: MockXMoneyIpn = { payload, result: encryptOrderResponse(payload, this.secretKey) };
+    this.ipns.push(ipn);
+
+    if (this.options.ipnUrl) {
+      try {
+        const response = await fetch(this.options.ipnUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: qs.stringify({ result: ipn.result }),
+        });
+        if (!response.ok) {
+          ipn.deliveryError = `IPN endpoint answered ${response.status}`;
+        }
+      } catch (error: any) {
+        ipn.deliveryError = String(error?.message ?? error);
+      }
+    }
+    return ipn;
+  }
+
+  private parseCustomData(customData: string | null): Record<string, string> | null {
+    try {
+      const parsed = customData ? JSON.parse(customData) : null;
+      return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getNextDueDate(createdAt: Date, intervalType: string, intervalValue: number): Date {
+    const nextDueDate = new Date(createdAt);
+    if (intervalType === 'day') {
+      nextDueDate.setUTCDate(nextDueDate.getUTCDate() + intervalValue);
+    } else if (intervalType === 'month') {
+      nextDueDate.setUTCMonth(nextDueDate.getUTCMonth() + intervalValue);
+    }
+    return nextDueDate;
+  }
+
+  private matchesFilters(
+    item: object,
+    query: Record<string, string>,
+    filters: string[],
+    dateField = 'createdAt',
+  ): boolean {
+    const values = item as Record<string, unknown>;
+    const createdAt = new Date(values[dateField] as Date).getTime();
+
+    return (
+      filters.every(
+        (filter) => query[filter] === undefined || String(values[filter]) === query[filter],
+      ) &&
+      (!query.createdAtFrom || createdAt >= new Date(query.createdAtFrom).getTime()) &&
+      (!query.createdAtTo || createdAt <= new Date(query.createdAtTo).getTime())
+    );
+  }
+
+  private find<T extends { id: number }>(items: T[], id: number): T | undefined {
+    return items.find((item) => item.id === id);
+  }
+
+  private nextId(): number {
+    return ++this.lastId;
+  }
+
+  private sendList<T>(res: ServerResponse, items: T[], query: Record<string, string>): void {
+    const page = Number(query.page ?? 0);
+    const perPage = Number(query.perPage ?? 100);
+
+    this.sendJson(res, xMoneyResponseCodeEnum.Success, {
+      code: xMoneyResponseCodeEnum.Success,
+      message: 'Success',
+      data: items.slice(page * perPage, (page + 1) * perPage),
+      pagination: {
+        currentPageNumber: page,
+        perPage,
+        pageCount: Math.ceil(items.length / perPage),
+        totalItemCount: items.length,
+      },
+    });
+  }
+
+  private sendSuccess(res: ServerResponse): void {
+    this.sendJson(res, xMoneyResponseCodeEnum.Success, {
+      code: xMoneyResponseCodeEnum.Success,
+      message: 'Success',
+    });
+  }
+
+  private sendError(
+    res: ServerResponse,
+    status: number,
+    message: string,
+    errorCodes: number[] = [status],
+  ): void {
+    this.sendJson(res, status, {
+      code: status,
+      message,
+      error: errorCodes.map((code) => ({ code, message, type: 'Exception' })),
+    });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: xMoneyApiResponseDto<unknown>): void {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  }
+}
+
+export const createMockXMoneyServer = async (
+  options: MockXMoneyServerOptions,
+): Promise<MockXMoneyServer> => await new MockXMoneyServer(options).listen();
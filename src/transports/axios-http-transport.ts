@@ -0,0 +1,41 @@
+import axios, { AxiosInstance } from 'axios';
+import { XMoneyNetworkError } from '../errors';
+import { HttpRequestDto, HttpResponseDto } from '../typings/dtos';
+import { HttpTransport } from './http-transport';
+
+export class AxiosHttpTransport implements HttpTransport {
+  private axiosInstance: AxiosInstance;
+
+  public constructor(axiosInstance: AxiosInstance = axios) {
+    this.axiosInstance = axiosInstance;
+  }
+
+  public async request<T = unknown>(request: HttpRequestDto): Promise<HttpResponseDto<T>> {
+    try {
+      const response = await this.axiosInstance.request<T>({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.body,
+        timeout: request.timeoutMs,
+        signal: request.signal,
+        // error statuses are mapped by the api service
+        validateStatus: () => true,
+      });
+
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(response.headers ?? {})) {
+        if (value !== undefined && value !== null) {
+          headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+      }
+
+      return { status: response.status, headers, data: response.data };
+    } catch (error: any) {
+      throw new XMoneyNetworkError(
+        `Unable to reach the xMoney API: ${error?.message ?? 'unknown error'}`,
+        error,
+      );
+    }
+  }
+}
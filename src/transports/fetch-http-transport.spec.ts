@@ -0,0 +1,85 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { FetchHttpTransport } from './fetch-http-transport';
+import { XMoneyNetworkError } from '../errors';
+
+describe('FetchHttpTransport', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const transport = new FetchHttpTransport();
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/slow') {
+        setTimeout(() => res.end(), 1000);
+        return;
+      }
+
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        res.statusCode = req.url === '/missing' ? 404 : 200;
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('X-Request-Id', 'req-1');
+        res.end(JSON.stringify({ method: req.method, body, auth: req.headers.authorization }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should send the request and parse the JSON response', async () => {
+    const response = await transport.request({
+      method: 'DELETE',
+      url: `${baseUrl}/transaction/1`,
+      headers: { Authorization: 'Bearer abc' },
+      body: 'amount=5',
+    });
+
+    expect(response).toEqual({
+      status: 200,
+      headers: expect.objectContaining({ 'x-request-id': 'req-1' }),
+      data: { method: 'DELETE', body: 'amount=5', auth: 'Bearer abc' },
+    });
+  });
+
+  it('should resolve error statuses', async () => {
+    const response = await transport.request({
+      method: 'GET',
+      url: `${baseUrl}/missing`,
+      headers: {},
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject with XMoneyNetworkError on timeout', async () => {
+    const request = transport.request({
+      method: 'GET',
+      url: `${baseUrl}/slow`,
+      headers: {},
+      timeoutMs: 50,
+    });
+
+    await expect(request).rejects.toBeInstanceOf(XMoneyNetworkError);
+    await expect(request).rejects.toThrow('timeout of 50ms exceeded');
+  });
+
+  it('should reject with XMoneyNetworkError once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const request = transport.request({
+      method: 'GET',
+      url: `${baseUrl}/slow`,
+      headers: {},
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(request).rejects.toThrow('request aborted');
+  });
+});
@@ -0,0 +1,60 @@
+import { XMoneyNetworkError } from '../errors';
+import { HttpRequestDto, HttpResponseDto } from '../typings/dtos';
+import { HttpTransport } from './http-transport';
+
+/**
+ * Transport built on the standard `fetch`, for runtimes without Node built-ins
+ * (Cloudflare Workers, Deno, Vercel Edge).
+ */
+export class FetchHttpTransport implements HttpTransport {
+  private fetchFn: typeof fetch;
+
+  public constructor(fetchFn?: typeof fetch) {
+    // bound to globalThis, some runtimes throw "Illegal invocation" otherwise
+    this.fetchFn = fetchFn ?? ((input, init) => globalThis.fetch(input, init));
+  }
+
+  public async request<T = unknown>(request: HttpRequestDto): Promise<HttpResponseDto<T>> {
+    const controller = new AbortController();
+    const timeout =
+      request.timeoutMs !== undefined
+        ? setTimeout(() => controller.abort(), request.timeoutMs)
+        : undefined;
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await this.fetchFn(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      return { status: response.status, headers, data: this.parseBody(await response.text()) };
+    } catch (error: any) {
+      const message = request.signal?.aborted
+        ? 'request aborted'
+        : controller.signal.aborted
+          ? `timeout of ${request.timeoutMs}ms exceeded`
+          : (error?.message ?? 'unknown error');
+      throw new XMoneyNetworkError(`Unable to reach the xMoney API: ${message}`, error);
+    } finally {
+      clearTimeout(timeout);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private parseBody<T>(text: string): T {
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      return text as T;
+    }
+  }
+}
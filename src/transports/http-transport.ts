@@ -0,0 +1,10 @@
+import { HttpRequestDto, HttpResponseDto } from '../typings/dtos';
+
+/**
+ * Sends the HTTP requests of the SDK.
+ * Implementations resolve for every HTTP status and reject with `XMoneyNetworkError`
+ * when no response was received (connection failure, timeout).
+ */
+export interface HttpTransport {
+  request<T = unknown>(request: HttpRequestDto): Promise<HttpResponseDto<T>>;
+}
@@ -0,0 +1,3 @@
+export * from './http-transport';
+export * from './axios-http-transport';
+export * from './fetch-http-transport';
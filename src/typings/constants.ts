@@ -3,4 +3,10 @@ export const TEST_ENV = 'test';
 export const LIVE_ENV_URL = 'https://secure.xmoney.com';
 export const TEST_ENV_URL = 'https://secure-stage.xmoney.com';
 export const LIVE_ENV_API_URL = 'https://api.xmoney.com'
-export const TEST_ENV_API_URL = 'https://api-stage.xmoney.com';
\ No newline at end of file
+export const TEST_ENV_API_URL = 'https://api-stage.xmoney.com';
+export const DEFAULT_TIMEOUT_MS = 30000;
+export const DEFAULT_MAX_RETRIES = 2;
+export const DEFAULT_WEBVIEW_SDK_VERSION = '0.0.9';
+export const DEFAULT_ORDER_WAIT_TIMEOUT_MS = 60000;
+export const DEFAULT_ORDER_POLL_INTERVAL_MS = 1000;
+export const DEFAULT_ORDER_POLL_MAX_INTERVAL_MS = 5000;
@@ -0,0 +1,5 @@
+// used by checkout and card save inputs that leave these fields out
+export class AccountDefaultsDto {
+  backUrl?: string;
+  invoiceEmail?: string;
+}
@@ -0,0 +1,17 @@
+import { AccountDefaultsDto } from './account-defaults.dto';
+
+export class AccountInputDto {
+  secretKey: string;
+  // must belong to the environment of the secret key
+  publicKey?: string;
+  defaults?: AccountDefaultsDto;
+}
+
+// checkout inputs whose publicKey and backUrl fall back to the account
+export type AccountScopedInput<T extends { publicKey: string; backUrl: string }> = Omit<
+  T,
+  'publicKey' | 'backUrl'
+> & {
+  publicKey?: string;
+  backUrl?: string;
+};
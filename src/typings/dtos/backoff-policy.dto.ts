@@ -0,0 +1,10 @@
+export class BackoffPolicyDto {
+  // delay before the first retry, defaults to 200ms
+  initialDelayMs?: number;
+  // upper bound for a single delay, defaults to 5000ms
+  maxDelayMs?: number;
+  // growth factor between two retries, defaults to 2
+  multiplier?: number;
+  // randomize delays to avoid retry storms, defaults to true
+  jitter?: boolean;
+}
@@ -0,0 +1,8 @@
+import { xMoneyRefundReasonEnum } from '../enums';
+
+export class CancelSubscriptionInputDto {
+  // xMoney order id, see SubscriptionDetailsDto.id
+  orderId: number;
+  reason?: `${xMoneyRefundReasonEnum}`;
+  message?: string;
+}
@@ -0,0 +1,4 @@
+export class CaptureTransactionInputDto {
+  transactionId: number;
+  amount: number;
+}
@@ -0,0 +1,6 @@
+export class CardListOptionsDto {
+  // e.g. 'active', sent to the api as the cardStatus filter
+  cardStatus?: string;
+  // getCards drops the expired cards it received from the api unless set, they cannot be charged
+  includeExpired?: boolean;
+}
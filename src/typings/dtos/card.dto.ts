@@ -1,3 +1,11 @@
 import { xMoneyCardResponseDto } from './xmoney';
 
-export class CardDto extends xMoneyCardResponseDto {}
+export class CardDto extends xMoneyCardResponseDto {
+  // binInfo.brand, or the card type when the bin is unknown
+  brand: string;
+  // cards are valid until the last day of their expiry month
+  isExpired: boolean;
+  // 0 once expired, undefined when the api returns no expiry date
+  expiresWithinDays?: number;
+  isDefault: boolean;
+}
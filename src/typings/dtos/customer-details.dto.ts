@@ -0,0 +1,3 @@
+import { xMoneyTransactionCustomerDataDto } from './xmoney';
+
+export class CustomerDetailsDto extends xMoneyTransactionCustomerDataDto {}
@@ -0,0 +1,15 @@
+export class CustomerInputDto {
+  // your own id of the customer, e.g. the user id of your app
+  identifier: string;
+  firstName?: string;
+  lastName?: string;
+  // ISO 3166-1 alpha-2, e.g. 'RO'
+  country?: string;
+  state?: string;
+  city?: string;
+  zipCode?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  tags?: string[];
+}
@@ -0,0 +1,8 @@
+export class CustomerListFiltersDto {
+  identifier?: string;
+  email?: string;
+  country?: string;
+  createdAtFrom?: Date | string;
+  createdAtTo?: Date | string;
+  perPage?: number;
+}
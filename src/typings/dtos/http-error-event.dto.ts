@@ -0,0 +1,12 @@
+import { HttpRequestEventDto } from './http-request-event.dto';
+
+export class HttpErrorEventDto extends HttpRequestEventDto {
+  status?: number;
+  latencyMs: number;
+  requestId?: string;
+  errorName: string;
+  message: string;
+  // xMoney error codes, see xMoneyResponseCodeEnum
+  errorCodes: number[];
+  willRetry: boolean;
+}
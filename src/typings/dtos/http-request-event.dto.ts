@@ -0,0 +1,7 @@
+export class HttpRequestEventDto {
+  method: string;
+  // api route without the ids and the query string, e.g. `transaction/:id`
+  route: string;
+  // 0 for the first attempt, incremented on every retry
+  attempt: number;
+}
@@ -0,0 +1,9 @@
+export class HttpRequestDto {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+  // aborts the request, set when the caller stops waiting for it
+  signal?: AbortSignal;
+}
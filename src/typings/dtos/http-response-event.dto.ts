@@ -0,0 +1,7 @@
+import { HttpRequestEventDto } from './http-request-event.dto';
+
+export class HttpResponseEventDto extends HttpRequestEventDto {
+  status: number;
+  latencyMs: number;
+  requestId?: string;
+}
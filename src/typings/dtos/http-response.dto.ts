@@ -0,0 +1,6 @@
+export class HttpResponseDto<T = unknown> {
+  status: number;
+  // header names are lower case
+  headers: Record<string, string>;
+  data: T;
+}
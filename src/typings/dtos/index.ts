@@ -3,7 +3,41 @@ export * from './order-output.dto';
 export * from './order-input.dto';
 export * from './xmoney';
 export * from './save-card-input.dto';
+export * from './save-card-verification.dto';
 export * from './api-response.dto';
 export * from './order-input-saved-card.dto';
+export * from './transaction-option.dto';
 export * from './card.dto';
-export * from './order-details.dto';
\ No newline at end of file
+export * from './card-list-options.dto';
+export * from './order-details.dto';
+export * from './wait-for-order-options.dto';
+export * from './refund-transaction-input.dto';
+export * from './capture-transaction-input.dto';
+export * from './transaction-operation-output.dto';
+export * from './transaction-list-filters.dto';
+export * from './order-list-filters.dto';
+export * from './transaction-details.dto';
+export * from './webhook-event.dto';
+export * from './webhook-handlers.dto';
+export * from './webhook-handler-options.dto';
+export * from './validation-issue.dto';
+export * from './backoff-policy.dto';
+export * from './http-request.dto';
+export * from './http-response.dto';
+export * from './http-request-event.dto';
+export * from './http-response-event.dto';
+export * from './http-error-event.dto';
+export * from './subscription-input.dto';
+export * from './cancel-subscription-input.dto';
+export * from './update-order-input.dto';
+export * from './subscription-details.dto';
+export * from './order-confirmation.dto';
+export * from './webview-checkout-options.dto';
+export * from './webview-message.dto';
+export * from './redirect-form.dto';
+export * from './account-defaults.dto';
+export * from './account-input.dto';
+export * from './customer-input.dto';
+export * from './update-customer-input.dto';
+export * from './customer-details.dto';
+export * from './customer-list-filters.dto';
@@ -1,4 +1,36 @@
+import { HttpTransport } from '../../transports/http-transport';
+import { XMoneyLogger } from '../../logging/logger';
+import { DefaultCardStore } from '../../cards/default-card-store';
+import { AccountDefaultsDto } from './account-defaults.dto';
+import { AccountInputDto } from './account-input.dto';
+import { BackoffPolicyDto } from './backoff-policy.dto';
+import { HttpErrorEventDto } from './http-error-event.dto';
+import { HttpRequestEventDto } from './http-request-event.dto';
+import { HttpResponseEventDto } from './http-response-event.dto';
+
 export class InitInputDto {
   secretKey: string;
+  // must belong to the environment of the secret key
+  publicKey?: string;
+  defaults?: AccountDefaultsDto;
+  // other sites of the merchant, see xMoney.forAccount
+  accounts?: Record<string, AccountInputDto>;
+  // replace the xMoney urls of the secret key environment, e.g. with createMockXMoneyServer
+  apiBaseUrl?: string;
+  checkoutUrl?: string;
+  // where setDefaultCard keeps the default card of each customer, in memory by default
+  defaultCardStore?: DefaultCardStore;
   verbose?: boolean;
+  // per request timeout, defaults to 30 seconds
+  timeoutMs?: number;
+  // retries for safe requests only, defaults to 2
+  maxRetries?: number;
+  backoff?: BackoffPolicyDto;
+  // defaults to an axios based transport, use FetchHttpTransport on edge runtimes
+  transport?: HttpTransport;
+  // pino / winston compatible, entries are redacted before being logged
+  logger?: XMoneyLogger;
+  onRequest?: (event: HttpRequestEventDto) => void;
+  onResponse?: (event: HttpResponseEventDto) => void;
+  onError?: (event: HttpErrorEventDto) => void;
 }
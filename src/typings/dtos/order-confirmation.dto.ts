@@ -0,0 +1,7 @@
+import { OrderDetailsDto } from './order-details.dto';
+
+export class OrderConfirmationDto {
+  // pending while the customer has not finished the 3-D Secure step
+  status: 'completed' | 'failed' | 'pending';
+  order: OrderDetailsDto;
+}
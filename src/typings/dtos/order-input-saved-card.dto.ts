@@ -4,16 +4,20 @@ import {
   xMoneyOrderTypeEnum,
   xMoneyTransactionMethodEnum,
 } from '../enums';
+import { TransactionOptionDto } from './transaction-option.dto';
 
 export class OrderInputSavedCardDto {
   customerId: number;
   ip: string;
   amount: number;
-  currency: FiatCurrenciesEnum;
+  currency: `${FiatCurrenciesEnum}`;
   externalOrderId: string;
   orderType: xMoneyOrderTypeEnum;
   transactionMethod: xMoneyTransactionMethodEnum;
   cardTransactionMode: xMoneyCardTransactionModeEnum;
   cardId: number;
-  transactionOption?: string;
+  // a JSON string is sent unchanged, as before the typed options
+  transactionOption?: TransactionOptionDto | string;
+  // sent as the Idempotency-Key header, allows retrying the request safely
+  idempotencyKey?: string;
 }
@@ -1,3 +1,5 @@
+import { FiatCurrenciesEnum } from '../enums';
+
 export class OrderInputDto {
   publicKey: string;
   cardTransactionMode: 'auth' | 'authAndCapture' | 'credit' | 'verifyCard';
@@ -20,7 +22,7 @@ export class OrderInputDto {
     orderId: string;
     type: 'purchase' | 'recurring' | 'managed' | 'credit';
     amount: number;
-    currency: string;
+    currency: `${FiatCurrenciesEnum}`;
     description: string;
     intervalType?: 'day' | 'month';
     intervalValue?: string;
@@ -0,0 +1,12 @@
+import { FiatCurrenciesEnum, xMoneyOrderStatusEnum } from '../enums';
+
+export class OrderListFiltersDto {
+  orderStatus?: `${xMoneyOrderStatusEnum}`;
+  orderType?: 'purchase' | 'recurring' | 'managed' | 'credit';
+  customerId?: number;
+  externalOrderId?: string;
+  currency?: `${FiatCurrenciesEnum}`;
+  createdAtFrom?: Date | string;
+  createdAtTo?: Date | string;
+  perPage?: number;
+}
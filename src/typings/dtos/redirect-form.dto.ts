@@ -0,0 +1,15 @@
+// a form the browser submits to a page hosted by xMoney, e.g. to build it in a SPA frontend
+export class RedirectFormDto {
+  action: string;
+  method: 'get' | 'post';
+  fields: Record<string, string>;
+}
+
+export class RedirectFormOptionsDto {
+  // added to the inline script tag for a Content-Security-Policy
+  nonce?: string;
+  // leaves out the script, the customer submits the form with a visible button
+  noScript?: boolean;
+  // label of the visible button, defaults to 'Continue to payment'
+  submitLabel?: string;
+}
@@ -0,0 +1,10 @@
+import { xMoneyRefundReasonEnum } from '../enums';
+
+export class RefundTransactionInputDto {
+  transactionId: number;
+  amount?: number; // partial refund amount, the whole transaction is refunded when omitted
+  reason?: `${xMoneyRefundReasonEnum}`;
+  message?: string;
+  // sent as the Idempotency-Key header, allows retrying the refund safely
+  idempotencyKey?: string;
+}
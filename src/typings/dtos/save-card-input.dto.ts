@@ -1,3 +1,5 @@
+import { SaveCardVerificationDto } from './save-card-verification.dto';
+
 export class SaveCardInputDto {
   publicKey: string;
   invoiceEmail?: string;
@@ -17,4 +19,6 @@ export class SaveCardInputDto {
     description: string;
   };
   customData?: string;
+  // defaults to an auth of 0.10 EUR that is not released
+  verification?: SaveCardVerificationDto;
 }
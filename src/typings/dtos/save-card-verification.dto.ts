@@ -0,0 +1,13 @@
+import { FiatCurrenciesEnum } from '../enums';
+
+export class SaveCardVerificationDto {
+  // verifyCard checks the card without charging it, the auth modes charge `amount` on it
+  mode: 'verifyCard' | 'auth' | 'authAndCapture';
+  // required by the auth modes
+  amount?: number;
+  // defaults to EUR
+  currency?: `${FiatCurrenciesEnum}`;
+  // voids an auth or refunds an authAndCapture charge once the IPN reports the saved card,
+  // done by the webhook handler of createWebhookHandler
+  release?: boolean;
+}
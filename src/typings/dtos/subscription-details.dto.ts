@@ -0,0 +1,3 @@
+import { OrderDetailsDto } from './order-details.dto';
+
+export class SubscriptionDetailsDto extends OrderDetailsDto {}
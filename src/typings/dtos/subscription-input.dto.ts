@@ -0,0 +1,32 @@
+import { FiatCurrenciesEnum, xMoneyIntervalTypeEnum } from '../enums';
+
+export class SubscriptionInputDto {
+  publicKey: string;
+  backUrl: string;
+  invoiceEmail?: string;
+  saveCard?: boolean;
+  customData?: string;
+  customer: {
+    identifier: string;
+    firstName?: string;
+    lastName?: string;
+    country?: string;
+    city?: string;
+    phone?: string;
+    email?: string;
+    tags?: string[];
+  };
+  subscription: {
+    orderId: string;
+    amount: number;
+    currency: `${FiatCurrenciesEnum}`;
+    description: string;
+    // the customer is charged every intervalValue days / months
+    intervalType: `${xMoneyIntervalTypeEnum}`;
+    intervalValue: number;
+    // amount charged at checkout, the first full charge happens on firstBillDate
+    trialAmount?: number;
+    firstBillDate?: Date | string;
+    retryPayment?: string;
+  };
+}
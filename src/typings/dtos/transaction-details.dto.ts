@@ -0,0 +1,3 @@
+import { xMoneyGetTransactionResponseDataDto } from './xmoney';
+
+export class TransactionDetailsDto extends xMoneyGetTransactionResponseDataDto {}
@@ -0,0 +1,16 @@
+import {
+  FiatCurrenciesEnum,
+  xMoneyTransactionStatusEnum,
+  xMoneyTransactionTypeEnum,
+} from '../enums';
+
+export class TransactionListFiltersDto {
+  transactionStatus?: `${xMoneyTransactionStatusEnum}`;
+  transactionType?: `${xMoneyTransactionTypeEnum}`;
+  customerId?: number;
+  orderId?: number;
+  currency?: `${FiatCurrenciesEnum}`;
+  createdAtFrom?: Date | string;
+  createdAtTo?: Date | string;
+  perPage?: number;
+}
@@ -0,0 +1,8 @@
+import { xMoneyTransactionStatusEnum } from '../enums';
+
+export class TransactionOperationOutputDto {
+  transactionId: number;
+  // read back from the api once the operation succeeded
+  transactionStatus: xMoneyTransactionStatusEnum;
+  amount: number;
+}
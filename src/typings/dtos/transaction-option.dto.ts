@@ -0,0 +1,11 @@
+// serialized to the transactionOption JSON of a saved card charge
+export class TransactionOptionDto {
+  // merchant for charges made without the customer, e.g. usage billing or top-ups (MIT)
+  initiator?: 'customer' | 'merchant';
+  // required for merchant initiated charges
+  storedCredentialReason?: 'unscheduled' | 'recurring' | 'instalment';
+  // the customer initiated transaction that stored the card, asked for by some issuers
+  originalTransactionId?: number;
+  // set by the SDK when retrying a soft decline
+  isSoftDecline?: boolean;
+}
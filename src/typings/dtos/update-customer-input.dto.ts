@@ -0,0 +1,15 @@
+// only the given fields are changed
+export class UpdateCustomerInputDto {
+  customerId: number;
+  identifier?: string;
+  firstName?: string;
+  lastName?: string;
+  country?: string;
+  state?: string;
+  city?: string;
+  zipCode?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  tags?: string[];
+}
@@ -0,0 +1,6 @@
+export class UpdateOrderInputDto {
+  // xMoney order id, see SubscriptionDetailsDto.id
+  orderId: number;
+  // date of the next charge of a recurring order
+  nextDueDate: Date | string;
+}
@@ -0,0 +1,4 @@
+export class ValidationIssueDto {
+  path: string;
+  message: string;
+}
@@ -0,0 +1,8 @@
+export class WaitForOrderOptionsDto {
+  // defaults to 60 seconds, an XMoneyTimeoutError is thrown once elapsed, even mid-poll
+  timeoutMs?: number;
+  // delay before the second poll, defaults to 1 second and grows up to 5 seconds
+  intervalMs?: number;
+  // stops waiting and aborts the in-flight poll, the promise is rejected with the abort reason
+  signal?: AbortSignal;
+}
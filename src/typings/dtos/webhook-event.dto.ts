@@ -0,0 +1,12 @@
+import { WebhookEventTypeEnum } from '../enums';
+import { xMoneyOrderDecryptResponseDto } from './xmoney';
+import { Money } from '../../utils/money';
+
+export class WebhookEventDto {
+  type: WebhookEventTypeEnum;
+  payload: xMoneyOrderDecryptResponseDto;
+  // payload amount and currency, undefined for a currency missing from FiatCurrenciesEnum
+  money?: Money;
+  // true when the same event was already handled and the handlers were skipped
+  alreadyProcessed: boolean;
+}
@@ -0,0 +1,8 @@
+import { DedupeStore } from '../../webhooks/dedupe-store';
+
+export class WebhookHandlerOptionsDto {
+  // defaults to an in-memory LRU store, false disables deduplication
+  dedupeStore?: DedupeStore | false;
+  // how long a processed event is remembered, defaults to 24 hours
+  retentionMs?: number;
+}
@@ -0,0 +1,16 @@
+import { WebhookEventDto } from './webhook-event.dto';
+import { xMoneyOrderDecryptResponseDto } from './xmoney';
+
+export type WebhookPayloadCallback = (
+  payload: xMoneyOrderDecryptResponseDto,
+) => void | Promise<void>;
+
+export class WebhookHandlersDto {
+  onPaymentCompleted?: WebhookPayloadCallback;
+  onPaymentFailed?: WebhookPayloadCallback;
+  onPaymentPending?: WebhookPayloadCallback;
+  onRefund?: WebhookPayloadCallback;
+  onChargeback?: WebhookPayloadCallback;
+  // called for every event, after the type specific handler
+  onEvent?: (event: WebhookEventDto) => void | Promise<void>;
+}
@@ -0,0 +1,22 @@
+import { ThemeEnum } from '../enums';
+
+export class WebviewCheckoutOptionsDto {
+  theme?: ThemeEnum;
+  // version of the xMoney payment form script, defaults to DEFAULT_WEBVIEW_SDK_VERSION
+  sdkVersion?: string;
+  // added to the inline script and style tags for a Content-Security-Policy
+  nonce?: string;
+  // e.g. 'en' or 'ro', also used as the page language
+  locale?: string;
+  customCss?: string;
+  // appearance variables of the payment form, e.g. { colorPrimary: '#0f62fe' }
+  appearanceVariables?: Record<string, string>;
+  displayCardHolderName?: boolean;
+  enableBackgroundRefresh?: boolean;
+  // target origin of window.parent.postMessage when the page is embedded in an iframe, defaults to '*'
+  messageTargetOrigin?: string;
+  // shows a button that posts a `cancel` message to the host app
+  cancelButtonLabel?: string;
+  // displays the saved cards of this customer
+  xMoneyCustomerId?: number;
+}
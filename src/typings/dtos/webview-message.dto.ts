@@ -0,0 +1,35 @@
+import { WebviewMessageTypeEnum } from '../enums';
+
+class WebviewMessageBaseDto {
+  // always 'xmoney-webview', tells the messages of the checkout page apart from other messages
+  source: 'xmoney-webview';
+  // protocol version, see WEBVIEW_MESSAGE_VERSION
+  version: number;
+}
+
+export class WebviewReadyMessageDto extends WebviewMessageBaseDto {
+  type: WebviewMessageTypeEnum.Ready;
+  payload: Record<string, never>;
+}
+
+export class WebviewErrorMessageDto extends WebviewMessageBaseDto {
+  type: WebviewMessageTypeEnum.Error;
+  payload: { message: string; code?: string | number };
+}
+
+export class WebviewPaymentCompleteMessageDto extends WebviewMessageBaseDto {
+  type: WebviewMessageTypeEnum.PaymentComplete;
+  // transaction result reported by the payment form, confirm it with the IPN or getOrder
+  payload: Record<string, unknown>;
+}
+
+export class WebviewCancelMessageDto extends WebviewMessageBaseDto {
+  type: WebviewMessageTypeEnum.Cancel;
+  payload: Record<string, never>;
+}
+
+export type WebviewMessageDto =
+  | WebviewReadyMessageDto
+  | WebviewErrorMessageDto
+  | WebviewPaymentCompleteMessageDto
+  | WebviewCancelMessageDto;
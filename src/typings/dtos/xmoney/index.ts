@@ -7,4 +7,9 @@ export * from './xmoney-order';
 export * from './xmoney-card-response.dto';
 export * from './xmoney-api-error.dto';
 export * from './xmoney-get-order-response-data.dto';
-export * from './xmoney-get-jwt-response-data.dto';
\ No newline at end of file
+export * from './xmoney-get-jwt-response-data.dto';
+export * from './xmoney-pagination.dto';
+export * from './xmoney-get-transaction-response-data.dto';
+export * from './xmoney-transaction-customer-data.dto';
+export * from './order-saved-card-output.dto';
+export * from './xmoney-create-customer-response-data.dto';
@@ -1,7 +1,18 @@
 import { xMoneyCreateOrderResponseDataRedirectDto } from "./xmoney-create-order-response-data-redirect.dto";
 import { xMoneyCreateOrderResponseDataDto } from "./xmoney-create-order-response-data.dto";
 
-export class OrderSavedCardOutputDto {
+export class OrderSavedCardCompletedDto {
+  status: 'completed';
   isThreeDSecure: boolean;
-  data: xMoneyCreateOrderResponseDataRedirectDto | xMoneyCreateOrderResponseDataDto;
+  data: xMoneyCreateOrderResponseDataDto;
 }
+
+// the customer must be redirected to the 3-D Secure page before the charge completes
+export class OrderSavedCardRequiresActionDto {
+  status: 'requires_action';
+  isThreeDSecure: boolean;
+  data: xMoneyCreateOrderResponseDataDto;
+  redirect: xMoneyCreateOrderResponseDataRedirectDto;
+}
+
+export type OrderSavedCardOutputDto = OrderSavedCardCompletedDto | OrderSavedCardRequiresActionDto;
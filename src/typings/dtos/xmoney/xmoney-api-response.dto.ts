@@ -1,9 +1,11 @@
 import { xMoneyResponseCodeEnum } from "../../enums";
 import { xMoneyApiErrorDto } from "./xmoney-api-error.dto";
+import { xMoneyPaginationDto } from "./xmoney-pagination.dto";
 
 export class xMoneyApiResponseDto<T> {
   code: xMoneyResponseCodeEnum;
   message: string;
   data?: T;
   error?: xMoneyApiErrorDto[];
+  pagination?: xMoneyPaginationDto;
 }
@@ -0,0 +1,3 @@
+export class xMoneyCreateCustomerResponseDataDto {
+  id: number;
+}
@@ -1,5 +1,7 @@
+import { xMoneyFormMethodEnum } from '../../enums';
+
 export class xMoneyCreateOrderResponseDataRedirectDto {
   url: string;
-  formMethod: number;
+  formMethod: xMoneyFormMethodEnum;
   params: Record<string, string>;
 }
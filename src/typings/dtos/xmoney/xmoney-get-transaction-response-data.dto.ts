@@ -0,0 +1,23 @@
+import {
+  xMoneyTransactionMethodEnum,
+  xMoneyTransactionStatusEnum,
+  xMoneyTransactionTypeEnum,
+} from '../../enums';
+import { xMoneyTransactionCustomerDataDto } from './xmoney-transaction-customer-data.dto';
+
+export class xMoneyGetTransactionResponseDataDto {
+  id: number;
+  siteId: number;
+  orderId: number;
+  customerId: number;
+  transactionType: xMoneyTransactionTypeEnum;
+  transactionMethod: xMoneyTransactionMethodEnum;
+  transactionStatus: xMoneyTransactionStatusEnum;
+  amount: number;
+  currency: string;
+  description: string;
+  cardId?: number;
+  relatedTransactionIds?: number[];
+  createdAt: Date;
+  customerData?: xMoneyTransactionCustomerDataDto;
+}
@@ -1,7 +1,9 @@
 import { xMoneyTransactionStatusEnum } from "../../enums/xmoney-transaction-status.enum";
+import { xMoneyTransactionTypeEnum } from "../../enums/xmoney-transaction-type.enum";
 
 export class xMoneyOrderDecryptResponseDto {
   transactionStatus: xMoneyTransactionStatusEnum;
+  transactionType?: xMoneyTransactionTypeEnum;
   orderId: number;
   externalOrderId: string;
   transactionId: number;
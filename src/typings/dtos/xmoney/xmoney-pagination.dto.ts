@@ -0,0 +1,6 @@
+export class xMoneyPaginationDto {
+  currentPageNumber: number;
+  perPage: number;
+  pageCount: number;
+  totalItemCount: number;
+}
@@ -9,3 +9,8 @@ export * from './xmoney-transaction-status.enum';
 export * from './xmoney-transaction-type.enum';
 export * from './xmoney-order-status.enum';
 export * from './theme.enum';
+export * from './xmoney-refund-reason.enum';
+export * from './webhook-event-type.enum';
+export * from './xmoney-interval-type.enum';
+export * from './xmoney-form-method.enum';
+export * from './webview-message-type.enum';
@@ -0,0 +1,8 @@
+export enum WebhookEventTypeEnum {
+  PaymentCompleted = 'payment-completed',
+  PaymentFailed = 'payment-failed',
+  PaymentPending = 'payment-pending',
+  Refund = 'refund',
+  Chargeback = 'chargeback',
+  Other = 'other',
+}
@@ -0,0 +1,6 @@
+export enum WebviewMessageTypeEnum {
+  Ready = 'ready',
+  Error = 'error',
+  PaymentComplete = 'paymentComplete',
+  Cancel = 'cancel',
+}
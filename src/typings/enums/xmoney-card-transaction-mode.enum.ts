@@ -2,4 +2,5 @@ export enum xMoneyCardTransactionModeEnum {
   Auth = 'auth',
   Auth_And_Capture = 'authAndCapture',
   Credit = 'credit',
+  VerifyCard = 'verifyCard',
 }
@@ -0,0 +1,4 @@
+export enum xMoneyFormMethodEnum {
+  Get = 0,
+  Post = 1,
+}
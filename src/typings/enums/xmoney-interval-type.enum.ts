@@ -0,0 +1,4 @@
+export enum xMoneyIntervalTypeEnum {
+  Day = 'day',
+  Month = 'month',
+}
@@ -4,5 +4,5 @@ export enum xMoneyOrderStatusEnum {
   Retrying = "retrying",
   Expiring = "expiring",
   CompleteOk = "complete-ok",
-  CompleteFailed = "completed-failed",
+  CompleteFailed = "complete-failed",
 }
@@ -1,4 +1,7 @@
 export enum xMoneyOrderTypeEnum {
     Purchase = 'purchase',
+    Recurring = 'recurring',
+    Managed = 'managed',
+    Credit = 'credit',
   }
   
\ No newline at end of file
@@ -0,0 +1,7 @@
+export enum xMoneyRefundReasonEnum {
+  FraudConfirm = 'fraud-confirm',
+  HighlySuspicious = 'highly-suspicious',
+  DuplicatedTransaction = 'duplicated-transaction',
+  CustomerDemand = 'customer-demand',
+  TestTransaction = 'test-transaction',
+}
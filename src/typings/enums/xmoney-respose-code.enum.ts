@@ -2,4 +2,11 @@ export enum xMoneyResponseCodeEnum {
   SoftDecline = 839,
   Created = 201,
   Success = 200,
+  BadRequest = 400,
+  Unauthorized = 401,
+  PaymentRequired = 402,
+  Forbidden = 403,
+  NotFound = 404,
+  TooManyRequests = 429,
+  InternalServerError = 500,
 }
@@ -3,4 +3,5 @@ export enum xMoneyTransactionStatusEnum {
   CompleteFailed = "complete-failed",
   InProgress = "in-progress",
   RefundOk = "refund-ok",
+  VoidOk = "void-ok",
 }
@@ -0,0 +1,84 @@
+import { BackoffPolicyDto } from '../typings/dtos';
+
+export const DEFAULT_BACKOFF_POLICY: Required<BackoffPolicyDto> = {
+  initialDelayMs: 200,
+  maxDelayMs: 5000,
+  multiplier: 2,
+  jitter: true,
+};
+
+/**
+ * Exponential delay before the retry following `attempt` (0 based).
+ * A `Retry-After` value sent by the server takes precedence, capped by `maxDelayMs`.
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  policy: BackoffPolicyDto = {},
+  retryAfterMs?: number,
+): number => {
+  const { initialDelayMs, maxDelayMs, multiplier, jitter } = {
+    ...DEFAULT_BACKOFF_POLICY,
+    ...policy,
+  };
+
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+
+  const delay = Math.min(initialDelayMs * Math.pow(multiplier, attempt), maxDelayMs);
+  // pick a random delay between half and the whole computed delay
+  return jitter ? Math.round(delay / 2 + (Math.random() * delay) / 2) : delay;
+};
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// rejects with the abort reason as soon as the signal is aborted
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// settles like the promise, or rejects with the abort reason as soon as the signal is aborted
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    // always settled through here, so a rejection after the abort is not left unhandled
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+
+    if (signal.aborted) {
+      return onAbort();
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+};
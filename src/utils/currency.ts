@@ -0,0 +1,44 @@
+import { FiatCurrenciesEnum } from '../typings/enums';
+
+export const DEFAULT_MINOR_UNITS = 2;
+
+// ISO 4217 exponents that differ from DEFAULT_MINOR_UNITS
+const NON_DEFAULT_MINOR_UNITS: Partial<Record<FiatCurrenciesEnum, number>> = {
+  [FiatCurrenciesEnum.BHD]: 3,
+  [FiatCurrenciesEnum.BIF]: 0,
+  [FiatCurrenciesEnum.CLF]: 4,
+  [FiatCurrenciesEnum.CLP]: 0,
+  [FiatCurrenciesEnum.DJF]: 0,
+  [FiatCurrenciesEnum.GNF]: 0,
+  [FiatCurrenciesEnum.IQD]: 3,
+  [FiatCurrenciesEnum.ISK]: 0,
+  [FiatCurrenciesEnum.JOD]: 3,
+  [FiatCurrenciesEnum.JPY]: 0,
+  [FiatCurrenciesEnum.KMF]: 0,
+  [FiatCurrenciesEnum.KRW]: 0,
+  [FiatCurrenciesEnum.KWD]: 3,
+  [FiatCurrenciesEnum.LYD]: 3,
+  [FiatCurrenciesEnum.OMR]: 3,
+  [FiatCurrenciesEnum.PYG]: 0,
+  [FiatCurrenciesEnum.RWF]: 0,
+  [FiatCurrenciesEnum.TND]: 3,
+  [FiatCurrenciesEnum.UGX]: 0,
+  [FiatCurrenciesEnum.UYI]: 0,
+  [FiatCurrenciesEnum.UYW]: 4,
+  [FiatCurrenciesEnum.VND]: 0,
+  [FiatCurrenciesEnum.VUV]: 0,
+  [FiatCurrenciesEnum.XAF]: 0,
+  [FiatCurrenciesEnum.XOF]: 0,
+  [FiatCurrenciesEnum.XPF]: 0,
+};
+
+const SUPPORTED_CURRENCIES = new Set<string>(Object.values(FiatCurrenciesEnum));
+
+export const isSupportedCurrency = (currency: unknown): currency is FiatCurrenciesEnum =>
+  typeof currency === 'string' && SUPPORTED_CURRENCIES.has(currency);
+
+/**
+ * Number of decimals of the currency, e.g. 2 for EUR, 0 for JPY and 3 for KWD.
+ */
+export const getCurrencyMinorUnits = (currency: `${FiatCurrenciesEnum}`): number =>
+  NON_DEFAULT_MINOR_UNITS[currency as FiatCurrenciesEnum] ?? DEFAULT_MINOR_UNITS;
@@ -0,0 +1,29 @@
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const SCRIPT_ESCAPES: Record<string, string> = {
+  '<': '\\u003c',
+  '>': '\\u003e',
+  '&': '\\u0026',
+  '\u2028': '\\u2028',
+  '\u2029': '\\u2029',
+};
+
+// for text content and attribute values
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (character) => HTML_ESCAPES[character]);
+
+/**
+ * JSON literal that can be embedded in an inline `<script>`,
+ * it can neither close the script tag nor break out of the string.
+ */
+export const toScriptJson = (value: unknown): string =>
+  JSON.stringify(value).replace(/[<>&\u2028\u2029]/g, (character) => SCRIPT_ESCAPES[character]);
+
+// keeps user supplied css from closing the <style> tag
+export const escapeCss = (value: string): string => value.replace(/</g, '\\3C ');
@@ -1,24 +1,78 @@
-import { ThemeEnum } from 'src/typings/enums';
+import { ThemeEnum } from '../typings/enums';
+import { WebviewCheckoutOptionsDto } from '../typings/dtos';
+import { escapeCss, escapeHtml, toScriptJson } from './escape';
+import {
+  WEBVIEW_IOS_MESSAGE_HANDLER,
+  WEBVIEW_MESSAGE_SOURCE,
+  WEBVIEW_MESSAGE_VERSION,
+} from '../webview/webview-message';
 
-export const getWebviewCheckoutHtmlString = (
-  publicKey: string,
-  payload: string,
-  checksum: string,
-  theme: ThemeEnum,
-  sessionToken?: string,
-  userId?: number,
-): string => `<!DOCTYPE html>
-<html lang="en">
+type WebviewCheckoutHtmlParams = {
+  scriptUrl: string;
+  publicKey: string;
+  payload: string;
+  checksum: string;
+  sessionToken?: string;
+  options: WebviewCheckoutOptionsDto;
+};
+
+export const getWebviewCheckoutHtmlString = ({
+  scriptUrl,
+  publicKey,
+  payload,
+  checksum,
+  sessionToken,
+  options,
+}: WebviewCheckoutHtmlParams): string => {
+  const nonce = options.nonce ? ` nonce="${escapeHtml(options.nonce)}"` : '';
+
+  // every value reaches the page through this JSON literal, never through string concatenation
+  const config = {
+    container: 'payment-form-widget',
+    elementsOptions: {
+      appearance: {
+        theme: options.theme ?? ThemeEnum.Dark,
+        ...(options.appearanceVariables && { variables: options.appearanceVariables }),
+      },
+      ...(options.locale && { locale: options.locale }),
+    },
+    options: {
+      enableBackgroundRefresh: options.enableBackgroundRefresh ?? true,
+      displayCardHolderName: options.displayCardHolderName ?? true,
+    },
+    checksum,
+    payload,
+    publicKey,
+    ...(sessionToken && { sessionToken }),
+    ...(options.xMoneyCustomerId != null && { userId: String(options.xMoneyCustomerId) }),
+  };
+  const bridge = {
+    source: WEBVIEW_MESSAGE_SOURCE,
+    version: WEBVIEW_MESSAGE_VERSION,
+    iosHandler: WEBVIEW_IOS_MESSAGE_HANDLER,
+    targetOrigin: options.messageTargetOrigin ?? '*',
+  };
+  const cancelButton = options.cancelButtonLabel
+    ? `<button type="button" class="cancel-button" id="cancel-button">${escapeHtml(options.cancelButtonLabel)}</button>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(options.locale ?? 'en')}">
   <head>
     <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
     <title>XMoney Payment Form</title>
-    <script src="https://secure-stage.xmoney.com/sdk/0.0.9/xmoney.js"></script>
-    <style>
+    <script src="${escapeHtml(scriptUrl)}"${nonce}></script>
+    <style${nonce}>
       .payment-form-container {
         position: relative;
         border-radius: 8px;
         min-height: 150px;
       }
+      .cancel-button {
+        display: block;
+        margin: 16px auto;
+      }
       .loading-overlay {
         position: absolute;
         inset: 0;
@@ -29,6 +83,7 @@ export const getWebviewCheckoutHtmlString = (
         justify-content: center;
         font-weight: bold;
       }
+      ${options.customCss ? escapeCss(options.customCss) : ''}
     </style>
   </head>
   <body>
@@ -38,52 +93,62 @@ export const getWebviewCheckoutHtmlString = (
       </div>
       <div id="payment-form-widget" style="opacity: 0"></div>
     </div>
+    ${cancelButton}
 
-    <script>
-      // Simulated props (replace with your real data)
-      const result = {
-        payload: "${payload}",
-        checksum: "${checksum}"
-      };
+    <script${nonce}>
+      const config = ${toScriptJson(config)};
+      const bridge = ${toScriptJson(bridge)};
 
       let paymentFormInstance = null;
 
+      // sends a protocol message to the app hosting the page, see parseWebviewMessage
+      function postToHost(type, payload) {
+        const message = {
+          source: bridge.source,
+          version: bridge.version,
+          type,
+          payload: JSON.parse(JSON.stringify(payload || {})),
+        };
+
+        if (window.ReactNativeWebView) {
+          window.ReactNativeWebView.postMessage(JSON.stringify(message));
+        } else if (window.webkit?.messageHandlers?.[bridge.iosHandler]) {
+          window.webkit.messageHandlers[bridge.iosHandler].postMessage(message);
+        } else if (window.parent && window.parent !== window) {
+          window.parent.postMessage(message, bridge.targetOrigin);
+        }
+      }
+
       function initPaymentForm() {
         if (!window.XMoneyPaymentForm) {
-          console.error("XMoneyPaymentForm SDK not loaded");
+          postToHost("error", { message: "XMoneyPaymentForm SDK not loaded" });
           return;
         }
 
         paymentFormInstance = new window.XMoneyPaymentForm({
-           container: "payment-form-widget",
-           elementsOptions: {
-             appearance: {
-               theme: "${theme}",
-             },
-            },
-            options: {
-              enableBackgroundRefresh: true,
-              displayCardHolderName: true,
-            },
-            checksum: result.checksum,
-            payload: result.payload,
-            publicKey: "${publicKey}",
-            sessionToken: "${sessionToken}",
-            userId: "${userId}",
-            onReady: () => setIsReady(true),
-            onError: (err) => console.error("❌ Payment error", err),
-            onReady: () => {
-              document.getElementById("loading-overlay").style.display = "none";
-              document.getElementById("payment-form-widget").style.opacity = "1";
-            },
-            onPaymentComplete: (result) => {
-              setTransactionResult(result);
-              window.scrollTo({ top: 0, behavior: "smooth" });
-            },
+          ...config,
+          onReady: () => {
+            document.getElementById("loading-overlay").style.display = "none";
+            document.getElementById("payment-form-widget").style.opacity = "1";
+            postToHost("ready");
+          },
+          onError: (err) => {
+            postToHost("error", {
+              message: String(err?.message ?? err ?? "Unknown error"),
+              ...(err?.code != null && { code: err.code }),
+            });
+          },
+          onPaymentComplete: (result) => {
+            window.scrollTo({ top: 0, behavior: "smooth" });
+            postToHost("paymentComplete", result);
+          },
         });
       }
 
       window.addEventListener("DOMContentLoaded", () => {
+        document
+          .getElementById("cancel-button")
+          ?.addEventListener("click", () => postToHost("cancel"));
         initPaymentForm();
       });
 
@@ -93,3 +158,4 @@ export const getWebviewCheckoutHtmlString = (
     </script>
   </body>
 </html>`;
+};
@@ -0,0 +1,43 @@
+import { Money } from './money';
+import { XMoneyValidationError } from '../errors';
+import { FiatCurrenciesEnum } from '../typings/enums';
+import { getCurrencyMinorUnits } from './currency';
+
+describe('Money', () => {
+  it('should convert decimal amounts to minor units without floating point errors', () => {
+    expect(Money.fromDecimal(10.99, 'EUR').minorUnits).toBe(1099);
+    expect(Money.fromDecimal(0.1 + 0.2, 'USD').minorUnits).toBe(30);
+    expect(Money.fromDecimal('1234.5', FiatCurrenciesEnum.RON).minorUnits).toBe(123450);
+    expect(Money.fromDecimal(-2.5, 'GBP').minorUnits).toBe(-250);
+  });
+
+  it('should use the decimals of the currency', () => {
+    expect(getCurrencyMinorUnits('JPY')).toBe(0);
+    expect(getCurrencyMinorUnits('KWD')).toBe(3);
+    expect(Money.fromDecimal(1500, 'JPY').toString()).toBe('1500');
+    expect(Money.fromDecimal(1.234, 'KWD').toString()).toBe('1.234');
+    expect(Money.fromMinorUnits(5, 'EUR').toString()).toBe('0.05');
+    expect(Money.fromMinorUnits(-1099, 'EUR').toDecimal()).toBe(-10.99);
+  });
+
+  it('should reject amounts with too many decimals and unknown currencies', () => {
+    expect(() => Money.fromDecimal(1.5, 'JPY')).toThrow(
+      'Amount 1.5 has more than 0 decimals allowed for JPY',
+    );
+    expect(() => Money.fromDecimal(1.999, 'EUR')).toThrow(XMoneyValidationError);
+    expect(() => Money.fromDecimal(NaN, 'EUR')).toThrow('Invalid amount: NaN');
+    expect(() => Money.fromDecimal(1, 'ABC' as any)).toThrow('Unsupported currency: ABC');
+    expect(() => Money.fromMinorUnits(1.5, 'EUR')).toThrow(XMoneyValidationError);
+  });
+
+  it('should add and subtract amounts of the same currency', () => {
+    const total = Money.fromDecimal(0.1, 'EUR').add(Money.fromDecimal(0.2, 'EUR'));
+
+    expect(total.toDecimal()).toBe(0.3);
+    expect(
+      total.subtract(Money.fromMinorUnits(30, 'EUR')).equals(Money.fromMinorUnits(0, 'EUR')),
+    ).toBe(true);
+    expect(() => total.add(Money.fromMinorUnits(1, 'USD'))).toThrow('Currency mismatch');
+    expect(JSON.stringify(total)).toBe('{"amount":0.3,"currency":"EUR"}');
+  });
+});
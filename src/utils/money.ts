@@ -0,0 +1,117 @@
+import { FiatCurrenciesEnum } from '../typings/enums';
+import { XMoneyError, XMoneyValidationError } from '../errors';
+import { getCurrencyMinorUnits, isSupportedCurrency } from './currency';
+
+const DECIMAL_REGEX = /^(-)?(\d+)(?:\.(\d+))?$/;
+// doubles are exact up to 15 significant digits, the rest is floating point noise
+const SIGNIFICANT_DIGITS = 15;
+
+/**
+ * Amount of money stored as an integer number of minor units (cents),
+ * so that conversions and arithmetic never suffer from floating point errors.
+ */
+export class Money {
+  public readonly minorUnits: number;
+  public readonly currency: FiatCurrenciesEnum;
+
+  private constructor(minorUnits: number, currency: FiatCurrenciesEnum) {
+    this.minorUnits = minorUnits;
+    this.currency = currency;
+  }
+
+  public static fromMinorUnits(minorUnits: number, currency: `${FiatCurrenciesEnum}`): Money {
+    const supportedCurrency = Money.assertCurrency(currency);
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw Money.invalidAmount(`Invalid amount in minor units: ${minorUnits}`);
+    }
+
+    return new Money(minorUnits, supportedCurrency);
+  }
+
+  /**
+   * Accepts decimal amounts such as `10.99` or `'10.99'`.
+   * Throws when the amount has more decimals than the currency allows, e.g. `1.5` JPY.
+   */
+  public static fromDecimal(amount: number | string, currency: `${FiatCurrenciesEnum}`): Money {
+    const supportedCurrency = Money.assertCurrency(currency);
+
+    const text =
+      typeof amount === 'number' && Number.isFinite(amount)
+        ? amount.toPrecision(SIGNIFICANT_DIGITS)
+        : String(amount).trim();
+    const match = text.match(DECIMAL_REGEX);
+    if (!match) {
+      throw Money.invalidAmount(`Invalid amount: ${amount}`);
+    }
+
+    const [, sign, integerPart, fractionPart = ''] = match;
+    const exponent = getCurrencyMinorUnits(supportedCurrency);
+    const fraction = fractionPart.replace(/0+$/, '');
+    if (fraction.length > exponent) {
+      throw Money.invalidAmount(
+        `Amount ${amount} has more than ${exponent} decimals allowed for ${supportedCurrency}`,
+      );
+    }
+
+    const minorUnits = Number(`${integerPart}${fraction.padEnd(exponent, '0')}`);
+    if (!Number.isSafeInteger(minorUnits)) {
+      throw Money.invalidAmount(`Amount ${amount} is too large`);
+    }
+
+    // avoids -0 for negative zero amounts
+    return new Money(sign && minorUnits ? -minorUnits : minorUnits, supportedCurrency);
+  }
+
+  public get exponent(): number {
+    return getCurrencyMinorUnits(this.currency);
+  }
+
+  public toDecimal(): number {
+    return Number(this.toString());
+  }
+
+  // decimal representation with the currency decimals, e.g. '10.90'
+  public toString(): string {
+    const digits = String(Math.abs(this.minorUnits)).padStart(this.exponent + 1, '0');
+    const integerPart = digits.slice(0, digits.length - this.exponent);
+    const fractionPart = digits.slice(digits.length - this.exponent);
+
+    return `${this.minorUnits < 0 ? '-' : ''}${integerPart}${fractionPart && `.${fractionPart}`}`;
+  }
+
+  public toJSON(): { amount: number; currency: FiatCurrenciesEnum } {
+    return { amount: this.toDecimal(), currency: this.currency };
+  }
+
+  public add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinorUnits(this.minorUnits + other.minorUnits, this.currency);
+  }
+
+  public subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromMinorUnits(this.minorUnits - other.minorUnits, this.currency);
+  }
+
+  public equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorUnits === other.minorUnits;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new XMoneyError(`Currency mismatch: ${this.currency} and ${other.currency}`);
+    }
+  }
+
+  private static assertCurrency(currency: string): FiatCurrenciesEnum {
+    if (!isSupportedCurrency(currency)) {
+      const message = `Unsupported currency: ${currency}`;
+      throw new XMoneyValidationError(message, [{ path: 'currency', message }]);
+    }
+    return currency;
+  }
+
+  private static invalidAmount(message: string): XMoneyValidationError {
+    return new XMoneyValidationError(message, [{ path: 'amount', message }]);
+  }
+}
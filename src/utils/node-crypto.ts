@@ -0,0 +1,20 @@
+import { XMoneyError } from '../errors';
+
+let nodeCrypto: typeof import('crypto') | undefined;
+
+/**
+ * Loads Node's `crypto` lazily so that importing the SDK does not fail on edge runtimes,
+ * where only the async (WebCrypto based) methods can be used.
+ */
+export const getNodeCrypto = (): typeof import('crypto') => {
+  if (!nodeCrypto) {
+    try {
+      nodeCrypto = require('crypto');
+    } catch {
+      throw new XMoneyError(
+        'Node crypto module is not available in this runtime, use the async methods instead',
+      );
+    }
+  }
+  return nodeCrypto as typeof import('crypto');
+};
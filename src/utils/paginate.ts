@@ -0,0 +1,28 @@
+import { xMoneyApiResponseDto } from '../typings/dtos';
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Walks through every page returned by `fetchPage`, starting with page 0,
+ * until the api reports no more pages or returns an empty one.
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number, perPage: number) => Promise<xMoneyApiResponseDto<T[]>>,
+  perPage: number = DEFAULT_PAGE_SIZE,
+): AsyncGenerator<T, void, undefined> {
+  let page = 0;
+
+  while (true) {
+    const response = await fetchPage(page, perPage);
+    const items = response.data ?? [];
+
+    yield* items;
+
+    page++;
+    const pageCount = response.pagination?.pageCount;
+    const hasMore = pageCount !== undefined ? page < pageCount : items.length === perPage;
+    if (!items.length || !hasMore) {
+      return;
+    }
+  }
+}
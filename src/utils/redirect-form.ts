@@ -0,0 +1,49 @@
+import { RedirectFormDto, RedirectFormOptionsDto } from '../typings/dtos';
+import { escapeHtml, toScriptJson } from './escape';
+
+const DEFAULT_SUBMIT_LABEL = 'Continue to payment';
+
+/**
+ * Form that submits itself on load, used to send the customer to a page hosted by xMoney.
+ * The inline script does not evaluate strings, so it runs under a strict Content-Security-Policy
+ * when given its nonce. In `noScript` mode the customer submits the form with a visible button.
+ */
+export const getAutoSubmitFormHtml = (
+  form: RedirectFormDto,
+  options: RedirectFormOptionsDto = {},
+  formName = 'redirectForm',
+): string => {
+  const inputs = Object.entries(form.fields)
+    .map(
+      ([name, value]) =>
+        `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(String(value))}">`,
+    )
+    .join('\n    ');
+  const button = `<button type="submit">${escapeHtml(options.submitLabel ?? DEFAULT_SUBMIT_LABEL)}</button>`;
+
+  const html = `<form id="${escapeHtml(formName)}" name="${escapeHtml(formName)}" 
+    action="${escapeHtml(form.action)}" method="${form.method}" accept-charset="UTF-8">
+    ${inputs}
+    ${options.noScript ? button : `<noscript>${button}</noscript>`}
+    </form>`;
+
+  if (options.noScript) {
+    return html;
+  }
+
+  const nonce = options.nonce ? ` nonce="${escapeHtml(options.nonce)}"` : '';
+  return `${html}
+    <script type="text/javascript"${nonce}>
+      window.addEventListener('load', function () {
+        document.forms[${toScriptJson(formName)}].submit();
+      });
+    </script>`;
+};
+
+export const getRedirectUrl = (url: string, params: Record<string, string>): string => {
+  const redirectUrl = new URL(url);
+  for (const [name, value] of Object.entries(params)) {
+    redirectUrl.searchParams.set(name, String(value));
+  }
+  return redirectUrl.toString();
+};
@@ -0,0 +1,45 @@
+import { XMoneyError } from '../errors';
+import { bytesToBase64 } from './base64';
+
+const getSubtleCrypto = (): SubtleCrypto => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new XMoneyError('WebCrypto is not available in this runtime');
+  }
+  return subtle;
+};
+
+export const isWebCryptoAvailable = (): boolean => !!globalThis.crypto?.subtle;
+
+export const hmacSha512Base64 = async (key: string, data: string): Promise<string> => {
+  const subtle = getSubtleCrypto();
+  const encoder = new TextEncoder();
+  const cryptoKey = await subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign'],
+  );
+  const signature = await subtle.sign('HMAC', cryptoKey, encoder.encode(data));
+
+  return bytesToBase64(new Uint8Array(signature));
+};
+
+export const decryptAes256Cbc = async (
+  key: string,
+  iv: Uint8Array,
+  data: Uint8Array,
+): Promise<string> => {
+  const subtle = getSubtleCrypto();
+  const cryptoKey = await subtle.importKey(
+    'raw',
+    new TextEncoder().encode(key),
+    { name: 'AES-CBC' },
+    false,
+    ['decrypt'],
+  );
+  const decrypted = await subtle.decrypt({ name: 'AES-CBC', iv }, cryptoKey, data);
+
+  return new TextDecoder().decode(decrypted);
+};
@@ -0,0 +1,8 @@
+export {
+  validateCustomerInput,
+  validateOrderInput,
+  validateSaveCardInput,
+  validateSavedCardOrderInput,
+  validateSubscriptionInput,
+  validateUpdateCustomerInput,
+} from './validate-input';
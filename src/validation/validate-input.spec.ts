@@ -0,0 +1,191 @@
+import { validateOrderInput, validateSaveCardInput, validateSavedCardOrderInput } from '.';
+import { OrderInputDto } from '../typings/dtos';
+
+describe('validate input', () => {
+  const orderInput: OrderInputDto = {
+    publicKey: 'pk_test_abc123',
+    cardTransactionMode: 'authAndCapture',
+    backUrl: 'https://example.com/return',
+    customer: { identifier: 'test-customer', email: 'john.doe@example.com' },
+    order: {
+      orderId: 'test-order-123',
+      type: 'purchase',
+      amount: 10.99,
+      currency: 'EUR',
+      description: 'Test order',
+    },
+  };
+
+  describe('validateOrderInput', () => {
+    it('should accept a valid order', () => {
+      expect(validateOrderInput(orderInput)).toEqual([]);
+    });
+
+    it('should report every invalid field', () => {
+      const issues = validateOrderInput({
+        ...orderInput,
+        backUrl: 'example.com',
+        customer: { identifier: '' },
+        order: { ...orderInput.order, amount: 1.999, currency: 'euro' as any },
+      });
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'backUrl',
+        'customer.identifier',
+        'order.amount',
+        'order.currency',
+      ]);
+    });
+
+    it('should reject negative and non finite amounts', () => {
+      const paths = (amount: number) =>
+        validateOrderInput({ ...orderInput, order: { ...orderInput.order, amount } });
+
+      expect(paths(-1)).toEqual([{ path: 'order.amount', message: 'must be greater than 0' }]);
+      expect(paths(NaN)).toEqual([{ path: 'order.amount', message: 'must be a finite number' }]);
+      expect(paths(0.1 + 0.2)).toEqual([]);
+    });
+
+    it('should allow the decimals of the order currency', () => {
+      const issues = (amount: number, currency: OrderInputDto['order']['currency']) =>
+        validateOrderInput({ ...orderInput, order: { ...orderInput.order, amount, currency } });
+
+      expect(issues(1.5, 'JPY')).toEqual([
+        { path: 'order.amount', message: 'must have at most 0 decimals' },
+      ]);
+      expect(issues(1.234, 'KWD')).toEqual([]);
+    });
+
+    it('should require the interval of recurring orders', () => {
+      const issues = validateOrderInput({
+        ...orderInput,
+        order: { ...orderInput.order, type: 'recurring', intervalValue: '0' },
+      });
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'order.intervalType',
+        'order.intervalValue',
+      ]);
+    });
+  });
+
+  describe('validateSaveCardInput', () => {
+    it('should only check the fields the caller provides', () => {
+      const { publicKey, backUrl, customer } = orderInput;
+
+      expect(
+        validateSaveCardInput({
+          publicKey,
+          backUrl,
+          customer,
+          order: { orderId: 'save-card-1', description: 'Save card' },
+        }),
+      ).toEqual([]);
+      expect(validateSaveCardInput({ publicKey, backUrl, customer } as any)).toEqual([
+        { path: 'order', message: 'is required' },
+      ]);
+    });
+  });
+
+  describe('validateSaveCardInput verification', () => {
+    const saveCardInput = {
+      publicKey: 'pk_test_abc123',
+      backUrl: 'https://example.com/return',
+      customer: { identifier: 'test-customer' },
+      order: { orderId: 'save-card-1', description: 'Save card' },
+    };
+
+    it('should check the verification amount against its currency', () => {
+      const issues = validateSaveCardInput({
+        ...saveCardInput,
+        verification: { mode: 'auth', amount: 1.5, currency: 'JPY', release: 'yes' as any },
+      });
+
+      expect(issues).toEqual([
+        { path: 'verification.amount', message: 'must have at most 0 decimals' },
+        { path: 'verification.release', message: 'must be a boolean' },
+      ]);
+    });
+
+    it('should reject an unsupported verification currency', () => {
+      const issues = validateSaveCardInput({
+        ...saveCardInput,
+        verification: { mode: 'verifyCard', currency: 'euro' as any },
+      });
+
+      expect(issues.map((issue) => issue.path)).toEqual(['verification.currency']);
+    });
+  });
+
+  describe('validateSavedCardOrderInput', () => {
+    it('should report invalid ids and enum values', () => {
+      const issues = validateSavedCardOrderInput({
+        customerId: 1.5,
+        cardId: 2,
+        ip: '127.0.0.1',
+        amount: 10,
+        currency: 'EUR',
+        externalOrderId: 'order-1',
+        orderType: 'purchase',
+        transactionMethod: 'cash',
+        cardTransactionMode: 'auth',
+      } as any);
+
+      expect(issues.map((issue) => issue.path)).toEqual(['customerId', 'transactionMethod']);
+    });
+
+    it('should require the stored credential reason of merchant initiated charges', () => {
+      const savedCardInput = {
+        customerId: 1,
+        cardId: 2,
+        ip: '127.0.0.1',
+        amount: 10,
+        currency: 'EUR',
+        externalOrderId: 'order-1',
+        orderType: 'purchase',
+        transactionMethod: 'card',
+        cardTransactionMode: 'authAndCapture',
+      } as const;
+
+      const issues = validateSavedCardOrderInput({
+        ...savedCardInput,
+        transactionOption: { initiator: 'merchant', originalTransactionId: 0 },
+      } as any);
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'transactionOption.storedCredentialReason',
+        'transactionOption.originalTransactionId',
+      ]);
+      expect(
+        validateSavedCardOrderInput({
+          ...savedCardInput,
+          transactionOption: { initiator: 'merchant', storedCredentialReason: 'unscheduled' },
+        } as any),
+      ).toEqual([]);
+    });
+
+    it('should accept a JSON string transaction option', () => {
+      const savedCardInput = {
+        customerId: 1,
+        cardId: 2,
+        ip: '127.0.0.1',
+        amount: 10,
+        currency: 'EUR',
+        externalOrderId: 'order-1',
+        orderType: 'purchase',
+        transactionMethod: 'card',
+        cardTransactionMode: 'authAndCapture',
+      } as any;
+
+      expect(
+        validateSavedCardOrderInput({
+          ...savedCardInput,
+          transactionOption: '{"isMit":"yes"}',
+        }),
+      ).toEqual([]);
+      expect(validateSavedCardOrderInput({ ...savedCardInput, transactionOption: 'yes' })).toEqual([
+        { path: 'transactionOption', message: 'must be a JSON object string or an object' },
+      ]);
+    });
+  });
+});
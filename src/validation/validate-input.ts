@@ -0,0 +1,427 @@
+import {
+  CaptureTransactionInputDto,
+  CustomerInputDto,
+  OrderInputDto,
+  OrderInputSavedCardDto,
+  RefundTransactionInputDto,
+  SaveCardInputDto,
+  SaveCardVerificationDto,
+  SubscriptionInputDto,
+  TransactionOptionDto,
+  UpdateCustomerInputDto,
+  ValidationIssueDto,
+} from '../typings/dtos';
+import {
+  FiatCurrenciesEnum,
+  xMoneyCardTransactionModeEnum,
+  xMoneyIntervalTypeEnum,
+  xMoneyOrderTypeEnum,
+  xMoneyTransactionMethodEnum,
+} from '../typings/enums';
+import { XMoneyValidationError } from '../errors';
+import { DEFAULT_MINOR_UNITS, getCurrencyMinorUnits, isSupportedCurrency } from '../utils/currency';
+
+const ORDER_TYPES: OrderInputDto['order']['type'][] = [
+  'purchase',
+  'recurring',
+  'managed',
+  'credit',
+];
+const CARD_TRANSACTION_MODES: OrderInputDto['cardTransactionMode'][] = [
+  'auth',
+  'authAndCapture',
+  'credit',
+  'verifyCard',
+];
+const INTERVAL_TYPES = Object.values(xMoneyIntervalTypeEnum);
+const INITIATORS: TransactionOptionDto['initiator'][] = ['customer', 'merchant'];
+const STORED_CREDENTIAL_REASONS: TransactionOptionDto['storedCredentialReason'][] = [
+  'unscheduled',
+  'recurring',
+  'instalment',
+];
+const VERIFICATION_MODES: SaveCardVerificationDto['mode'][] = [
+  'verifyCard',
+  'auth',
+  'authAndCapture',
+];
+
+const CUSTOMER_STRING_FIELDS = [
+  'firstName',
+  'lastName',
+  'country',
+  'state',
+  'city',
+  'zipCode',
+  'address',
+  'phone',
+] as const;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// collects issues instead of throwing so that every failing field is reported at once
+class IssueCollector {
+  public readonly issues: ValidationIssueDto[] = [];
+
+  public add(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  public requiredString(path: string, value: unknown): void {
+    if (typeof value !== 'string' || !value.trim()) {
+      this.add(path, 'is required');
+    }
+  }
+
+  public optionalString(path: string, value: unknown): void {
+    if (value != null && typeof value !== 'string') {
+      this.add(path, 'must be a string');
+    }
+  }
+
+  public oneOf(path: string, value: unknown, allowed: readonly unknown[]): void {
+    if (!allowed.includes(value)) {
+      this.add(path, `must be one of: ${allowed.join(', ')}`);
+    }
+  }
+
+  public positiveInteger(path: string, value: unknown): void {
+    if (!Number.isInteger(value) || (value as number) <= 0) {
+      this.add(path, 'must be a positive integer');
+    }
+  }
+
+  // the allowed decimals depend on the currency, e.g. none for JPY and 3 for KWD
+  public amount(path: string, value: unknown, currency: unknown, allowZero = false): void {
+    const minorUnits = isSupportedCurrency(currency)
+      ? getCurrencyMinorUnits(currency)
+      : DEFAULT_MINOR_UNITS;
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.add(path, 'must be a finite number');
+    } else if (allowZero ? value < 0 : value <= 0) {
+      this.add(path, allowZero ? 'must not be negative' : 'must be greater than 0');
+    } else if (!Number.isInteger(Number((value * 10 ** minorUnits).toFixed(6)))) {
+      this.add(path, `must have at most ${minorUnits} decimals`);
+    }
+  }
+
+  public currency(path: string, value: unknown): void {
+    if (!isSupportedCurrency(value)) {
+      this.add(path, 'must be a supported ISO 4217 currency code');
+    }
+  }
+
+  public url(path: string, value: unknown): void {
+    let protocol: string | undefined;
+    try {
+      protocol = typeof value === 'string' ? new URL(value).protocol : undefined;
+    } catch {
+      protocol = undefined;
+    }
+
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      this.add(path, 'must be an absolute http(s) URL');
+    }
+  }
+
+  public futureDate(path: string, value: unknown): void {
+    const time =
+      value instanceof Date || typeof value === 'string' ? new Date(value).getTime() : NaN;
+
+    if (Number.isNaN(time)) {
+      this.add(path, 'must be a valid date');
+    } else if (time <= Date.now()) {
+      this.add(path, 'must be in the future');
+    }
+  }
+
+  public email(path: string, value: unknown): void {
+    if (value != null && (typeof value !== 'string' || !EMAIL_REGEX.test(value))) {
+      this.add(path, 'must be a valid email address');
+    }
+  }
+
+  public object(path: string, value: unknown): value is Record<string, unknown> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      this.add(path, 'is required');
+      return false;
+    }
+    return true;
+  }
+}
+
+const isJsonObject = (value: unknown): boolean => {
+  try {
+    const parsed: unknown = typeof value === 'string' ? JSON.parse(value) : undefined;
+    return !!parsed && typeof parsed === 'object' && !Array.isArray(parsed);
+  } catch {
+    return false;
+  }
+};
+
+const validateCustomer = (issues: IssueCollector, customer: unknown): void => {
+  if (issues.object('customer', customer)) {
+    issues.requiredString('customer.identifier', customer.identifier);
+    issues.email('customer.email', customer.email);
+  }
+};
+
+/**
+ * Validates a hosted checkout order before it is signed.
+ * Returns every failing field, an empty list means the input is valid.
+ */
+export const validateOrderInput = (input: OrderInputDto): ValidationIssueDto[] => {
+  const issues = new IssueCollector();
+
+  issues.requiredString('publicKey', input?.publicKey);
+  issues.oneOf('cardTransactionMode', input?.cardTransactionMode, CARD_TRANSACTION_MODES);
+  issues.url('backUrl', input?.backUrl);
+  issues.email('invoiceEmail', input?.invoiceEmail);
+  issues.optionalString('customData', input?.customData);
+  validateCustomer(issues, input?.customer);
+
+  const order: unknown = input?.order;
+  if (issues.object('order', order)) {
+    issues.requiredString('order.orderId', order.orderId);
+    issues.requiredString('order.description', order.description);
+    issues.oneOf('order.type', order.type, ORDER_TYPES);
+    issues.amount('order.amount', order.amount, order.currency);
+    issues.currency('order.currency', order.currency);
+
+    if (order.type === 'recurring') {
+      issues.oneOf('order.intervalType', order.intervalType, INTERVAL_TYPES);
+      issues.positiveInteger('order.intervalValue', Number(order.intervalValue));
+    }
+    // a free trial has a zero trial amount
+    if (order.trialAmount != null) {
+      issues.amount('order.trialAmount', order.trialAmount, order.currency, true);
+    }
+  }
+
+  return issues.issues;
+};
+
+/**
+ * Validates a recurring order, the first bill date of a trial must be in the future.
+ */
+export const validateSubscriptionInput = (input: SubscriptionInputDto): ValidationIssueDto[] => {
+  const issues = new IssueCollector();
+
+  issues.requiredString('publicKey', input?.publicKey);
+  issues.url('backUrl', input?.backUrl);
+  issues.email('invoiceEmail', input?.invoiceEmail);
+  issues.optionalString('customData', input?.customData);
+  validateCustomer(issues, input?.customer);
+
+  const subscription: unknown = input?.subscription;
+  if (issues.object('subscription', subscription)) {
+    const { currency } = subscription;
+    issues.requiredString('subscription.orderId', subscription.orderId);
+    issues.requiredString('subscription.description', subscription.description);
+    issues.amount('subscription.amount', subscription.amount, currency);
+    issues.currency('subscription.currency', currency);
+    issues.oneOf('subscription.intervalType', subscription.intervalType, INTERVAL_TYPES);
+    issues.positiveInteger('subscription.intervalValue', subscription.intervalValue);
+    issues.optionalString('subscription.retryPayment', subscription.retryPayment);
+
+    if (subscription.trialAmount != null) {
+      issues.amount('subscription.trialAmount', subscription.trialAmount, currency, true);
+      if (subscription.firstBillDate == null) {
+        issues.add('subscription.firstBillDate', 'is required with a trial');
+      }
+    }
+    if (subscription.firstBillDate != null) {
+      issues.futureDate('subscription.firstBillDate', subscription.firstBillDate);
+    }
+  }
+
+  return issues.issues;
+};
+
+/**
+ * Validates a subscription pause, billing resumes at `resumeAt`.
+ */
+export const validatePauseSubscriptionInput = (
+  orderId: number,
+  resumeAt: Date | string,
+): ValidationIssueDto[] => {
+  const issues = new IssueCollector();
+
+  issues.positiveInteger('orderId', orderId);
+  issues.futureDate('resumeAt', resumeAt);
+
+  return issues.issues;
+};
+
+/**
+ * Validates a card save request, the order amount and currency are set by the SDK.
+ */
+export const validateSaveCardInput = (input: SaveCardInputDto): ValidationIssueDto[] => {
+  const issues = new IssueCollector();
+
+  issues.requiredString('publicKey', input?.publicKey);
+  issues.url('backUrl', input?.backUrl);
+  issues.email('invoiceEmail', input?.invoiceEmail);
+  issues.optionalString('customData', input?.customData);
+  validateCustomer(issues, input?.customer);
+
+  const order: unknown = input?.order;
+  if (issues.object('order', order)) {
+    issues.requiredString('order.orderId', order.orderId);
+    issues.requiredString('order.description', order.description);
+  }
+
+  const verification: unknown = input?.verification;
+  if (verification != null && issues.object('verification', verification)) {
+    const currency = verification.currency ?? FiatCurrenciesEnum.EUR;
+    issues.oneOf('verification.mode', verification.mode, VERIFICATION_MODES);
+    issues.currency('verification.currency', currency);
+
+    if (verification.mode !== 'verifyCard') {
+      issues.amount('verification.amount', verification.amount, currency);
+    }
+    if (verification.release != null && typeof verification.release !== 'boolean') {
+      issues.add('verification.release', 'must be a boolean');
+    }
+    if (verification.release === true) {
+      if (verification.mode === 'verifyCard') {
+        issues.add('verification.release', 'is only supported by the auth modes');
+      }
+      // the webhook handler finds the charge to release through a key added to customData
+      if (input.customData != null && !isJsonObject(input.customData)) {
+        issues.add('customData', 'must be a JSON object when the verification is released');
+      }
+    }
+  }
+
+  return issues.issues;
+};
+
+/**
+ * Validates a saved card charge before it is sent to the API.
+ */
+export const validateSavedCardOrderInput = (
+  input: OrderInputSavedCardDto,
+): ValidationIssueDto[] => {
+  const issues = new IssueCollector();
+
+  issues.positiveInteger('customerId', input?.customerId);
+  issues.positiveInteger('cardId', input?.cardId);
+  issues.requiredString('ip', input?.ip);
+  issues.requiredString('externalOrderId', input?.externalOrderId);
+  issues.amount('amount', input?.amount, input?.currency);
+  issues.currency('currency', input?.currency);
+  issues.oneOf('orderType', input?.orderType, Object.values(xMoneyOrderTypeEnum));
+  issues.oneOf(
+    'transactionMethod',
+    input?.transactionMethod,
+    Object.values(xMoneyTransactionMethodEnum),
+  );
+  issues.oneOf(
+    'cardTransactionMode',
+    input?.cardTransactionMode,
+    Object.values(xMoneyCardTransactionModeEnum),
+  );
+
+  const option: unknown = input?.transactionOption;
+  // a JSON string is sent unchanged, as before the typed options
+  if (typeof option === 'string') {
+    if (!isJsonObject(option)) {
+      issues.add('transactionOption', 'must be a JSON object string or an object');
+    }
+  } else if (option != null && issues.object('transactionOption', option)) {
+    if (option.initiator != null) {
+      issues.oneOf('transactionOption.initiator', option.initiator, INITIATORS);
+    }
+    // issuers decline merchant initiated charges that do not say why the card is charged
+    if (option.initiator === 'merchant' || option.storedCredentialReason != null) {
+      issues.oneOf(
+        'transactionOption.storedCredentialReason',
+        option.storedCredentialReason,
+        STORED_CREDENTIAL_REASONS,
+      );
+    }
+    if (option.originalTransactionId != null) {
+      issues.positiveInteger(
+        'transactionOption.originalTransactionId',
+        option.originalTransactionId,
+      );
+    }
+  }
+
+  return issues.issues;
+};
+
+/**
+ * Validates a refund or a capture. The amount decimals depend on the transaction currency,
+ * so the amount is only checked once the currency is given.
+ */
+export const validateTransactionOperationInput = (
+  input: RefundTransactionInputDto | CaptureTransactionInputDto,
+  currency?: string,
+): ValidationIssueDto[] => {
+  const issues = new IssueCollector();
+
+  issues.positiveInteger('transactionId', input?.transactionId);
+  if (currency !== undefined && input?.amount !== undefined) {
+    issues.amount('amount', input.amount, currency);
+  }
+
+  return issues.issues;
+};
+
+// fields shared by the create and update customer requests
+const validateCustomerFields = (
+  issues: IssueCollector,
+  input: Partial<CustomerInputDto> | undefined,
+): void => {
+  for (const field of CUSTOMER_STRING_FIELDS) {
+    issues.optionalString(field, input?.[field]);
+  }
+  issues.email('email', input?.email);
+  if (input?.tags != null && !Array.isArray(input.tags)) {
+    issues.add('tags', 'must be a list of strings');
+  }
+};
+
+/**
+ * Validates a new customer before it is sent to the API.
+ */
+export const validateCustomerInput = (input: CustomerInputDto): ValidationIssueDto[] => {
+  const issues = new IssueCollector();
+
+  issues.requiredString('identifier', input?.identifier);
+  validateCustomerFields(issues, input);
+
+  return issues.issues;
+};
+
+/**
+ * Validates a customer update, only the customer id is required.
+ */
+export const validateUpdateCustomerInput = (
+  input: UpdateCustomerInputDto,
+): ValidationIssueDto[] => {
+  const issues = new IssueCollector();
+
+  issues.positiveInteger('customerId', input?.customerId);
+  if (input?.identifier !== undefined) {
+    issues.requiredString('identifier', input.identifier);
+  }
+  validateCustomerFields(issues, input);
+
+  return issues.issues;
+};
+
+/**
+ * Throws an XMoneyValidationError listing every issue, does nothing for a valid input.
+ */
+export const assertValidInput = (issues: ValidationIssueDto[], message: string): void => {
+  if (issues.length) {
+    throw new XMoneyValidationError(
+      `${message}: ${issues.map((issue) => `${issue.path} ${issue.message}`).join(', ')}`,
+      issues,
+    );
+  }
+};
@@ -0,0 +1,134 @@
+import { encryptOrderResponse } from '../../testing/encrypt-order-response';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import express from 'express';
+import { createExpressWebhookMiddleware, XMoneyWebhookRequest } from './express.adapter';
+import { WebhookHandler } from '../webhook-handler';
+import { OrderService } from '../../services/order.service';
+import { CommonService } from '../../services/common.service';
+import { xMoneyTransactionStatusEnum } from '../../typings/enums';
+
+const SECRET_KEY = '0123456789abcdef0123456789abcdef';
+
+const encrypt = (data: unknown): string => encryptOrderResponse(data, SECRET_KEY);
+
+describe('createExpressWebhookMiddleware', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const payload = {
+    transactionStatus: xMoneyTransactionStatusEnum.CompleteFailed,
+    orderId: 1,
+    externalOrderId: 'test-order-123',
+    transactionId: 2,
+    amount: 100,
+    currency: 'EUR',
+    timestamp: 1700000000,
+  };
+
+  beforeAll(async () => {
+    const webhookHandler = new WebhookHandler(
+      new OrderService(new CommonService({ secretKey: `sk_test_${SECRET_KEY}` })),
+    );
+    const app = express();
+
+    // raw body, no body parser mounted
+    app.post('/raw', createExpressWebhookMiddleware(webhookHandler), (req, res) => {
+      res.json((req as XMoneyWebhookRequest).xMoneyOrder);
+    });
+    let failures = 1;
+    app.post('/flaky', createExpressWebhookMiddleware(webhookHandler), (_req, res) => {
+      if (failures-- > 0) {
+        throw new Error('database unavailable');
+      }
+      res.send('fulfilled');
+    });
+    let stalls = 1;
+    app.post(
+      '/stalled',
+      createExpressWebhookMiddleware(webhookHandler, { responseTimeoutMs: 50 }),
+      (_req, res) => {
+        // never answers the first time
+        if (stalls-- <= 0) {
+          res.send('fulfilled');
+        }
+      },
+    );
+    app.post(
+      '/parsed',
+      express.urlencoded({ extended: false }),
+      createExpressWebhookMiddleware(webhookHandler, { respond: true }),
+    );
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should expose the decrypted order on req.xMoneyOrder for the next handler', async () => {
+    const response = await axios.post(
+      `${baseUrl}/raw`,
+      `result=${encodeURIComponent(encrypt(payload))}`,
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual(payload);
+  });
+
+  it('should reply 200 itself after express.urlencoded() when respond is enabled', async () => {
+    const response = await axios.post(
+      `${baseUrl}/parsed`,
+      `result=${encodeURIComponent(encrypt(payload))}`,
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.data).toBe('OK');
+  });
+
+  it('should run the next handler again for the retry of an IPN it failed', async () => {
+    const body = `result=${encodeURIComponent(encrypt({ ...payload, transactionId: 3 }))}`;
+    const post = () =>
+      axios.post(`${baseUrl}/flaky`, body, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        validateStatus: () => true,
+      });
+
+    const failed = await post();
+    const retried = await post();
+    const duplicate = await post();
+
+    expect(failed.status).toBe(500);
+    expect(retried.data).toBe('fulfilled');
+    expect(duplicate.data).toBe('OK');
+  });
+
+  it('should release the claim when the next handler never answers', async () => {
+    const body = `result=${encodeURIComponent(encrypt({ ...payload, transactionId: 4 }))}`;
+    const post = () =>
+      axios.post(`${baseUrl}/stalled`, body, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        validateStatus: () => true,
+      });
+
+    const stalled = await post();
+    const retried = await post();
+
+    expect(stalled.status).toBe(500);
+    expect(retried.data).toBe('fulfilled');
+  });
+
+  it('should reply 400 when the body cannot be verified', async () => {
+    const response = await axios.post(`${baseUrl}/parsed`, 'foo=bar', {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      validateStatus: () => true,
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
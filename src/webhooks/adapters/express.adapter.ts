@@ -0,0 +1,64 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { WebhookVerificationError } from '../../errors';
+import { WebhookEventDto, xMoneyOrderDecryptResponseDto } from '../../typings/dtos';
+import { WebhookHandler } from '../webhook-handler';
+import { sendText } from './http.adapter';
+import { readRequestBody } from './read-request-body';
+import { waitForSuccessfulResponse } from './wait-for-successful-response';
+
+export interface XMoneyWebhookRequest extends IncomingMessage {
+  body?: unknown;
+  xMoneyOrder?: xMoneyOrderDecryptResponseDto;
+}
+
+export class ExpressWebhookOptionsDto {
+  // reply 200 right away instead of calling the next handler
+  respond?: boolean;
+  // time left to the next handler to answer, defaults to 30 seconds
+  responseTimeoutMs?: number;
+}
+
+/**
+ * Express middleware that decrypts the IPN / backUrl body and exposes it as `req.xMoneyOrder`.
+ * Works with or without `express.urlencoded()` / `express.json()` mounted before it.
+ */
+export const createExpressWebhookMiddleware =
+  (webhookHandler: WebhookHandler, options: ExpressWebhookOptionsDto = {}) =>
+  async (
+    req: XMoneyWebhookRequest,
+    res: ServerResponse,
+    next: (error?: unknown) => void,
+  ): Promise<void> => {
+    // the next handler runs under the dedupe claim, a failed response lets the retry reach it again
+    const runNext = options.respond
+      ? undefined
+      : (event: WebhookEventDto): Promise<void> => {
+          req.xMoneyOrder = event.payload;
+          const response = waitForSuccessfulResponse(res, options.responseTimeoutMs);
+          next();
+          return response;
+        };
+
+    let alreadyProcessed: boolean;
+    try {
+      const event = await webhookHandler.handle(await readRequestBody(req), runNext);
+      req.xMoneyOrder = event.payload;
+      alreadyProcessed = event.alreadyProcessed;
+    } catch (error) {
+      // the next handler already answered
+      if (res.headersSent) {
+        return;
+      }
+      if (error instanceof WebhookVerificationError) {
+        sendText(res, 400, error.message);
+        return;
+      }
+      next(error);
+      return;
+    }
+
+    // a retried IPN is acknowledged without reaching the next handler again
+    if (options.respond || alreadyProcessed) {
+      sendText(res, 200, 'OK');
+    }
+  };
@@ -0,0 +1,145 @@
+import { encryptOrderResponse } from '../../testing/encrypt-order-response';
+import axios from 'axios';
+import Fastify, { FastifyInstance } from 'fastify';
+import {
+  DEFAULT_FASTIFY_WEBHOOK_URL,
+  xMoneyFastifyPlugin,
+  XMoneyFastifyRequest,
+} from './fastify.adapter';
+import { WebhookHandler } from '../webhook-handler';
+import { OrderService } from '../../services/order.service';
+import { CommonService } from '../../services/common.service';
+import { xMoneyTransactionStatusEnum } from '../../typings/enums';
+
+const SECRET_KEY = '0123456789abcdef0123456789abcdef';
+
+const encrypt = (data: unknown): string => encryptOrderResponse(data, SECRET_KEY);
+
+describe('xMoneyFastifyPlugin', () => {
+  let fastify: FastifyInstance;
+  let baseUrl: string;
+  const onPaymentCompleted = jest.fn();
+  const payload = {
+    transactionStatus: xMoneyTransactionStatusEnum.CompleteOk,
+    orderId: 1,
+    externalOrderId: 'test-order-123',
+    transactionId: 2,
+    amount: 100,
+    currency: 'EUR',
+    timestamp: 1700000000,
+  };
+  const createWebhookHandler = () =>
+    new WebhookHandler(
+      new OrderService(new CommonService({ secretKey: `sk_test_${SECRET_KEY}` })),
+      { onPaymentCompleted },
+    );
+
+  beforeAll(async () => {
+    fastify = Fastify();
+    await fastify.register(xMoneyFastifyPlugin, {
+      webhookHandler: createWebhookHandler(),
+      url: '/ipn',
+    });
+
+    let failures = 1;
+    fastify.post('/ipn', (request, reply) => {
+      const { xMoneyOrder } = request as unknown as XMoneyFastifyRequest;
+      if (xMoneyOrder?.transactionId === 3 && failures-- > 0) {
+        throw new Error('database unavailable');
+      }
+      void reply.send(xMoneyOrder);
+    });
+    fastify.post('/other', (request, reply) => {
+      void reply.send({ xMoneyOrder: (request as unknown as XMoneyFastifyRequest).xMoneyOrder });
+    });
+    baseUrl = await fastify.listen({ port: 0, host: '127.0.0.1' });
+  });
+
+  afterAll(async () => {
+    await fastify.close();
+  });
+
+  afterEach(() => {
+    onPaymentCompleted.mockReset();
+  });
+
+  it('should expose the decrypted form-encoded IPN on request.xMoneyOrder for the route', async () => {
+    const response = await axios.post(
+      `${baseUrl}/ipn`,
+      `result=${encodeURIComponent(encrypt(payload))}`,
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual(payload);
+    expect(onPaymentCompleted).toHaveBeenCalledWith(payload);
+  });
+
+  it('should accept a JSON IPN', async () => {
+    const jsonPayload = { ...payload, transactionId: 4 };
+    const response = await axios.post(`${baseUrl}/ipn`, { result: encrypt(jsonPayload) });
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual(jsonPayload);
+  });
+
+  it('should run the route again for the retry of an IPN it failed', async () => {
+    const body = `result=${encodeURIComponent(encrypt({ ...payload, transactionId: 3 }))}`;
+    const post = () =>
+      axios.post(`${baseUrl}/ipn`, body, {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        validateStatus: () => true,
+      });
+
+    const failed = await post();
+    const retried = await post();
+    const duplicate = await post();
+
+    expect(failed.status).toBe(500);
+    expect(retried.data).toEqual({ ...payload, transactionId: 3 });
+    expect(duplicate.data).toBe('OK');
+  });
+
+  it('should reply 400 when the body cannot be verified', async () => {
+    const response = await axios.post(
+      `${baseUrl}/ipn`,
+      { result: 'invalid' },
+      { validateStatus: () => true },
+    );
+
+    expect(response.status).toBe(400);
+    expect(onPaymentCompleted).not.toHaveBeenCalled();
+  });
+
+  it('should leave the other routes alone', async () => {
+    const response = await axios.post(`${baseUrl}/other`, { result: encrypt(payload) });
+
+    expect(response.data).toEqual({ xMoneyOrder: null });
+    expect(onPaymentCompleted).not.toHaveBeenCalled();
+  });
+
+  it('should keep a form body parser registered by the app', async () => {
+    const app = Fastify();
+    // parses form bodies into objects, as @fastify/formbody does
+    app.addContentTypeParser(
+      'application/x-www-form-urlencoded',
+      { parseAs: 'string' },
+      (_request, body, done) => done(null, Object.fromEntries(new URLSearchParams(body as string))),
+    );
+    await app.register(xMoneyFastifyPlugin, { webhookHandler: createWebhookHandler() });
+    app.post(DEFAULT_FASTIFY_WEBHOOK_URL, (request, reply) => {
+      void reply.send((request as unknown as XMoneyFastifyRequest).xMoneyOrder);
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: DEFAULT_FASTIFY_WEBHOOK_URL,
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      payload: `result=${encodeURIComponent(encrypt({ ...payload, transactionId: 5 }))}`,
+    });
+    await app.close();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ ...payload, transactionId: 5 });
+  });
+});
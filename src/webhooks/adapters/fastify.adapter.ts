@@ -0,0 +1,108 @@
+import { ServerResponse } from 'http';
+import { WebhookVerificationError } from '../../errors';
+import { WebhookEventDto, xMoneyOrderDecryptResponseDto } from '../../typings/dtos';
+import { WebhookHandler } from '../webhook-handler';
+import { waitForSuccessfulResponse } from './wait-for-successful-response';
+
+const FORM_CONTENT_TYPE = 'application/x-www-form-urlencoded';
+
+// Minimal structural types so the SDK does not depend on fastify
+export interface XMoneyFastifyRequest {
+  method: string;
+  body: unknown;
+  routeOptions: { url?: string };
+  // set by the plugin on the webhook route, null on the other routes
+  xMoneyOrder: xMoneyOrderDecryptResponseDto | null;
+}
+
+interface FastifyLikeReply {
+  raw: ServerResponse;
+  code(statusCode: number): FastifyLikeReply;
+  type(contentType: string): FastifyLikeReply;
+  send(payload?: unknown): FastifyLikeReply;
+}
+
+interface FastifyLikeInstance {
+  hasContentTypeParser(contentType: string): boolean;
+  addContentTypeParser(
+    contentType: string,
+    opts: { parseAs: 'string' },
+    parser: (request: any, body: string, done: (err: Error | null, body?: unknown) => void) => void,
+  ): void;
+  decorateRequest(property: string, value: null): unknown;
+  addHook(name: 'preHandler', hook: (request: any, reply: any) => Promise<unknown>): unknown;
+}
+
+export class FastifyWebhookOptionsDto {
+  webhookHandler: WebhookHandler;
+  // POST route of the app that receives the IPN / backUrl
+  url?: string;
+  // time left to the route to answer, defaults to 30 seconds
+  responseTimeoutMs?: number;
+}
+
+export const DEFAULT_FASTIFY_WEBHOOK_URL = '/xmoney/ipn';
+
+/**
+ * Fastify plugin decrypting the IPN / backUrl body of the POST route at `url` in a preHandler
+ * hook. The decrypted order is exposed as `request.xMoneyOrder` and the route replies, as after
+ * the Express middleware; a retried IPN that was already processed is acknowledged with 200.
+ * Form-encoded bodies are parsed unless a parser such as @fastify/formbody is registered.
+ */
+export const xMoneyFastifyPlugin = (
+  fastify: FastifyLikeInstance,
+  options: FastifyWebhookOptionsDto,
+  done: (error?: Error) => void,
+): void => {
+  const url = options.url ?? DEFAULT_FASTIFY_WEBHOOK_URL;
+
+  if (!fastify.hasContentTypeParser(FORM_CONTENT_TYPE)) {
+    fastify.addContentTypeParser(FORM_CONTENT_TYPE, { parseAs: 'string' }, (_request, body, done) =>
+      done(null, body),
+    );
+  }
+  fastify.decorateRequest('xMoneyOrder', null);
+
+  fastify.addHook('preHandler', async (request: XMoneyFastifyRequest, reply: FastifyLikeReply) => {
+    if (request.method !== 'POST' || request.routeOptions.url !== url) {
+      return;
+    }
+
+    // the route runs under the dedupe claim, a failed response lets the retry reach it again
+    let routeReady: () => void = () => undefined;
+    const ready = new Promise<undefined>((resolve) => (routeReady = () => resolve(undefined)));
+    const handled = options.webhookHandler.handle(
+      (request.body ?? '') as string | Record<string, unknown>,
+      (event: WebhookEventDto): Promise<void> => {
+        request.xMoneyOrder = event.payload;
+        const response = waitForSuccessfulResponse(reply.raw, options.responseTimeoutMs);
+        routeReady();
+        return response;
+      },
+    );
+
+    try {
+      if ((await Promise.race([handled, ready])) === undefined) {
+        // the claim is released by the handler when the route fails
+        handled.catch(() => undefined);
+        return;
+      }
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        return reply.code(400).type('text/plain; charset=utf-8').send(error.message);
+      }
+      throw error;
+    }
+
+    // a retried IPN is acknowledged without reaching the route again
+    return reply.code(200).type('text/plain; charset=utf-8').send('OK');
+  });
+
+  done();
+};
+
+// like fastify-plugin: the parser, the decorator and the hook apply to the routes of the app
+Object.assign(xMoneyFastifyPlugin, {
+  [Symbol.for('skip-override')]: true,
+  [Symbol.for('fastify.display-name')]: 'xmoney-webhook',
+});
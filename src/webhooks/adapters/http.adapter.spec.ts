@@ -0,0 +1,86 @@
+import { encryptOrderResponse } from '../../testing/encrypt-order-response';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import axios from 'axios';
+import { createHttpWebhookListener } from './http.adapter';
+import { WebhookHandler } from '../webhook-handler';
+import { OrderService } from '../../services/order.service';
+import { CommonService } from '../../services/common.service';
+import { xMoneyTransactionStatusEnum } from '../../typings/enums';
+
+const SECRET_KEY = '0123456789abcdef0123456789abcdef';
+
+const encrypt = (data: unknown): string => encryptOrderResponse(data, SECRET_KEY);
+
+describe('createHttpWebhookListener', () => {
+  let server: http.Server;
+  let url: string;
+  const onPaymentCompleted = jest.fn();
+  const payload = {
+    transactionStatus: xMoneyTransactionStatusEnum.CompleteOk,
+    orderId: 1,
+    externalOrderId: 'test-order-123',
+    transactionId: 2,
+    amount: 100,
+    currency: 'EUR',
+    timestamp: 1700000000,
+  };
+
+  beforeAll(async () => {
+    const webhookHandler = new WebhookHandler(
+      new OrderService(new CommonService({ secretKey: `sk_test_${SECRET_KEY}` })),
+      { onPaymentCompleted },
+    );
+    server = http.createServer(createHttpWebhookListener(webhookHandler));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/ipn`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    onPaymentCompleted.mockReset();
+  });
+
+  it('should decrypt a form-encoded IPN, run the handlers and reply 200', async () => {
+    const response = await axios.post(url, `result=${encodeURIComponent(encrypt(payload))}`, {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.data).toBe('OK');
+    expect(onPaymentCompleted).toHaveBeenCalledWith(payload);
+  });
+
+  it('should reply 400 when the body cannot be verified', async () => {
+    const response = await axios.post(url, 'result=invalid', { validateStatus: () => true });
+
+    expect(response.status).toBe(400);
+    expect(response.data).toContain('Invalid encrypted payload format');
+    expect(onPaymentCompleted).not.toHaveBeenCalled();
+  });
+
+  it('should reply 500 when a handler throws so that the IPN is retried', async () => {
+    onPaymentCompleted.mockRejectedValueOnce(new Error('database unavailable'));
+
+    const response = await axios.post(
+      url,
+      { result: encrypt({ ...payload, transactionId: 3 }) },
+      { validateStatus: () => true },
+    );
+
+    expect(response.status).toBe(500);
+  });
+
+  it('should acknowledge a retried IPN without running the handlers again', async () => {
+    const result = encodeURIComponent(encrypt({ ...payload, transactionId: 4 }));
+
+    await axios.post(url, `result=${result}`);
+    const response = await axios.post(url, `result=${result}`);
+
+    expect(response.status).toBe(200);
+    expect(onPaymentCompleted).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,30 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { WebhookVerificationError } from '../../errors';
+import { WebhookHandler } from '../webhook-handler';
+import { readRequestBody } from './read-request-body';
+
+/**
+ * Plain `http.createServer` listener for the IPN / backUrl endpoint. Replies 200 once the
+ * webhook handlers ran, 400 when the body cannot be verified and 500 when a handler throws,
+ * so that xMoney retries the notification. The decrypted order reaches the webhook handlers.
+ */
+export const createHttpWebhookListener =
+  (webhookHandler: WebhookHandler) =>
+  async (req: IncomingMessage & { body?: unknown }, res: ServerResponse): Promise<void> => {
+    try {
+      await webhookHandler.handle(await readRequestBody(req));
+      sendText(res, 200, 'OK');
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        sendText(res, 400, error.message);
+        return;
+      }
+      sendText(res, 500, 'Internal Server Error');
+    }
+  };
+
+export const sendText = (res: ServerResponse, statusCode: number, body: string): void => {
+  res.statusCode = statusCode;
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.end(body);
+};
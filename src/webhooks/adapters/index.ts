@@ -0,0 +1,3 @@
+export * from './http.adapter';
+export * from './express.adapter';
+export * from './fastify.adapter';
@@ -0,0 +1,28 @@
+import { IncomingMessage } from 'http';
+
+/**
+ * Returns the already parsed body when a framework body parser ran before the adapter,
+ * otherwise reads the raw request stream.
+ */
+export const readRequestBody = async (
+  req: IncomingMessage & { body?: unknown },
+): Promise<string | Uint8Array | Record<string, unknown>> => {
+  if (req.body !== undefined && req.body !== null) {
+    if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+      return req.body;
+    }
+    if (typeof req.body === 'object' && Object.keys(req.body).length) {
+      return req.body as Record<string, unknown>;
+    }
+  }
+
+  if (req.readableEnded) {
+    return '';
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
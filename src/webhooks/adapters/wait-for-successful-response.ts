@@ -0,0 +1,27 @@
+import { ServerResponse } from 'http';
+
+export const DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_MS = 30000;
+
+/**
+ * Settles once the route answered. A failed or missing response rejects, which releases the
+ * dedupe claim of the IPN so that its retry reaches the route again.
+ */
+export const waitForSuccessfulResponse = (
+  res: ServerResponse,
+  timeoutMs = DEFAULT_WEBHOOK_RESPONSE_TIMEOUT_MS,
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`The next handler did not answer the webhook within ${timeoutMs}ms`)),
+      timeoutMs,
+    );
+
+    res.once('close', () => {
+      clearTimeout(timer);
+      if (res.writableFinished && res.statusCode >= 200 && res.statusCode < 300) {
+        resolve();
+      } else {
+        reject(new Error(`The next handler answered the webhook with ${res.statusCode}`));
+      }
+    });
+  });
@@ -0,0 +1,59 @@
+import { WebhookVerificationError } from '../errors';
+import { xMoneyOrderDecryptResponseDto } from '../typings/dtos';
+
+const REQUIRED_FIELDS: { [key: string]: 'string' | 'number' } = {
+  transactionStatus: 'string',
+  orderId: 'number',
+  externalOrderId: 'string',
+  transactionId: 'number',
+  amount: 'number',
+  currency: 'string',
+  timestamp: 'number',
+};
+
+const OPTIONAL_FIELDS: { [key: string]: 'string' | 'number' | 'object' } = {
+  transactionType: 'string',
+  transactionMethod: 'string',
+  customerId: 'number',
+  identifier: 'string',
+  cardId: 'number',
+  customData: 'object',
+  customFields: 'object',
+};
+
+/**
+ * Checks at runtime that a decrypted IPN has the shape of `xMoneyOrderDecryptResponseDto`.
+ */
+export function assertOrderDecryptResponse(
+  value: unknown,
+): asserts value is xMoneyOrderDecryptResponseDto {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new WebhookVerificationError('Decrypted payload is not an object');
+  }
+
+  const payload = value as Record<string, unknown>;
+  const invalidFields: string[] = [];
+
+  for (const [field, type] of Object.entries(REQUIRED_FIELDS)) {
+    if (typeof payload[field] !== type) {
+      invalidFields.push(field);
+    }
+  }
+
+  for (const [field, type] of Object.entries(OPTIONAL_FIELDS)) {
+    // null and undefined are accepted for every optional field
+    if (payload[field] != null && typeof payload[field] !== type) {
+      invalidFields.push(field);
+    }
+  }
+
+  if (payload.errors != null && !Array.isArray(payload.errors)) {
+    invalidFields.push('errors');
+  }
+
+  if (invalidFields.length) {
+    throw new WebhookVerificationError(
+      `Decrypted payload has missing or invalid fields: ${invalidFields.join(', ')}`,
+    );
+  }
+}
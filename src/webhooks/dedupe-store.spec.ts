@@ -0,0 +1,44 @@
+import { InMemoryDedupeStore } from './dedupe-store';
+
+describe('InMemoryDedupeStore', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should claim a key only once within the retention window', async () => {
+    const store = new InMemoryDedupeStore();
+
+    expect(await store.claim('a', 1000)).toBe(true);
+    expect(await store.claim('a', 1000)).toBe(false);
+  });
+
+  it('should allow claiming a key again once it expired', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const store = new InMemoryDedupeStore();
+
+    await store.claim('a', 1000);
+    jest.setSystemTime(1001);
+
+    expect(await store.claim('a', 1000)).toBe(true);
+  });
+
+  it('should allow claiming a released key again', async () => {
+    const store = new InMemoryDedupeStore();
+
+    await store.claim('a', 1000);
+    await store.release('a');
+
+    expect(await store.claim('a', 1000)).toBe(true);
+  });
+
+  it('should evict the least recently claimed keys above the max entries', async () => {
+    const store = new InMemoryDedupeStore(2);
+
+    await store.claim('a', 1000);
+    await store.claim('b', 1000);
+    await store.claim('c', 1000);
+
+    expect(await store.claim('a', 1000)).toBe(true);
+    expect(await store.claim('c', 1000)).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Storage used to remember which webhook events were already processed.
+ * `claim` must be atomic, e.g. `SET key 1 NX PX ttlMs` on Redis or an
+ * `INSERT` on a unique column in SQL.
+ */
+export interface DedupeStore {
+  /**
+   * Stores the key for `ttlMs` milliseconds.
+   * Resolves false when the key is already stored, meaning the event was already claimed.
+   */
+  claim(key: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Forgets the key so that a retry of a failed event is processed again.
+   */
+  release(key: string): Promise<void>;
+}
+
+export const DEFAULT_DEDUPE_MAX_ENTRIES = 10000;
+
+/**
+ * In-process LRU store, the default when no store is configured.
+ * Only suitable for a single instance: use a shared store when running several.
+ */
+export class InMemoryDedupeStore implements DedupeStore {
+  private entries = new Map<string, number>();
+  private maxEntries: number;
+
+  public constructor(maxEntries: number = DEFAULT_DEDUPE_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  public claim(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const expiresAt = this.entries.get(key);
+
+    if (expiresAt !== undefined && expiresAt > now) {
+      return Promise.resolve(false);
+    }
+
+    // re-inserting moves the key to the end of the map, which keeps the map ordered by recency
+    this.entries.delete(key);
+    this.entries.set(key, now + ttlMs);
+    this.evict(now);
+
+    return Promise.resolve(true);
+  }
+
+  public release(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  private evict(now: number): void {
+    for (const [key, expiresAt] of this.entries) {
+      if (this.entries.size <= this.maxEntries && expiresAt > now) {
+        return;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,284 @@
+import { encryptOrderResponse } from '../testing/encrypt-order-response';
+import { WebhookHandler } from './webhook-handler';
+import { OrderService } from '../services/order.service';
+import { CommonService } from '../services/common.service';
+import { TransactionService } from '../services/transaction.service';
+import { CardService } from '../services/card.service';
+import { xMoneyGetTransactionResponseDataDto } from '../typings/dtos';
+import { WebhookVerificationError } from '../errors';
+import { InMemoryDedupeStore } from './dedupe-store';
+import {
+  WebhookEventTypeEnum,
+  xMoneyTransactionStatusEnum,
+  xMoneyTransactionTypeEnum,
+} from '../typings/enums';
+
+const SECRET_KEY = '0123456789abcdef0123456789abcdef';
+
+const encrypt = (data: unknown, key: string = SECRET_KEY): string =>
+  encryptOrderResponse(data, key);
+
+describe('WebhookHandler', () => {
+  let orderService: OrderService;
+  const payload = {
+    transactionStatus: xMoneyTransactionStatusEnum.CompleteOk,
+    orderId: 1,
+    externalOrderId: 'test-order-123',
+    transactionId: 2,
+    transactionMethod: 'card',
+    customerId: 3,
+    identifier: 'test-customer',
+    amount: 100,
+    currency: 'EUR',
+    customData: null,
+    customFields: null,
+    timestamp: 1700000000,
+    cardId: 4,
+  };
+
+  beforeAll(() => {
+    orderService = new OrderService(new CommonService({ secretKey: `sk_test_${SECRET_KEY}` }));
+  });
+
+  describe('parse', () => {
+    it('should decrypt a form-encoded body', () => {
+      const handler = new WebhookHandler(orderService);
+      const body = `result=${encodeURIComponent(encrypt(payload))}`;
+
+      expect(handler.parse(body)).toEqual(payload);
+    });
+
+    it('should decrypt a JSON body, a parsed object and a bare value', () => {
+      const handler = new WebhookHandler(orderService);
+      const result = encrypt(payload);
+
+      expect(handler.parse(JSON.stringify({ result }))).toEqual(payload);
+      expect(handler.parse({ result })).toEqual(payload);
+      expect(handler.parse(Buffer.from(result))).toEqual(payload);
+    });
+
+    it('should decrypt with WebCrypto the same way as with Node crypto', async () => {
+      const handler = new WebhookHandler(orderService);
+      const result = encrypt({ ...payload, identifier: 'clïent' });
+
+      expect(await handler.parseAsync({ result })).toEqual(handler.parse({ result }));
+      await expect(
+        handler.parseAsync({ result: encrypt(payload, 'fedcba9876543210fedcba9876543210') }),
+      ).rejects.toThrow(WebhookVerificationError);
+    });
+
+    it('should throw WebhookVerificationError when the result field is missing', () => {
+      const handler = new WebhookHandler(orderService);
+
+      expect(() => handler.parse({ foo: 'bar' })).toThrow(WebhookVerificationError);
+      expect(() => handler.parse('')).toThrow('Webhook body is empty');
+    });
+
+    it('should throw WebhookVerificationError on a malformed payload', () => {
+      const handler = new WebhookHandler(orderService);
+
+      expect(() => handler.parse('result=not-encrypted')).toThrow(
+        'Invalid encrypted payload format',
+      );
+      expect(() => handler.parse(`result=${encodeURIComponent('YWJj,YWJj')}`)).toThrow(
+        'Invalid IV length',
+      );
+    });
+
+    it('should throw WebhookVerificationError when encrypted with another key', () => {
+      const handler = new WebhookHandler(orderService);
+      const result = encrypt(payload, 'fedcba9876543210fedcba9876543210');
+
+      expect(() => handler.parse({ result })).toThrow(WebhookVerificationError);
+    });
+
+    it('should throw WebhookVerificationError when the decrypted shape is invalid', () => {
+      const handler = new WebhookHandler(orderService);
+      const result = encrypt({ ...payload, orderId: 'abc', amount: undefined });
+
+      expect(() => handler.parse({ result })).toThrow(
+        'Decrypted payload has missing or invalid fields: orderId, amount',
+      );
+    });
+  });
+
+  describe('handle', () => {
+    it('should dispatch a completed payment to onPaymentCompleted and onEvent', async () => {
+      const onPaymentCompleted = jest.fn();
+      const onPaymentFailed = jest.fn();
+      const onEvent = jest.fn();
+      const handler = new WebhookHandler(orderService, {
+        onPaymentCompleted,
+        onPaymentFailed,
+        onEvent,
+      });
+
+      const event = await handler.handle({ result: encrypt(payload) });
+
+      expect(event.type).toBe(WebhookEventTypeEnum.PaymentCompleted);
+      expect(event.money?.minorUnits).toBe(10000);
+      expect(onPaymentCompleted).toHaveBeenCalledWith(payload);
+      expect(onPaymentFailed).not.toHaveBeenCalled();
+      expect(onEvent).toHaveBeenCalledWith(event);
+    });
+
+    it('should dispatch refunds and chargebacks based on the transaction type', async () => {
+      const onRefund = jest.fn();
+      const onChargeback = jest.fn();
+      const handler = new WebhookHandler(orderService, { onRefund, onChargeback });
+
+      await handler.handle({
+        result: encrypt({ ...payload, transactionType: xMoneyTransactionTypeEnum.Refund }),
+      });
+      await handler.handle({
+        result: encrypt({
+          ...payload,
+          transactionId: 5,
+          transactionType: xMoneyTransactionTypeEnum.Chargeback,
+        }),
+      });
+
+      expect(onRefund).toHaveBeenCalledTimes(1);
+      expect(onChargeback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the handlers for an already processed event', async () => {
+      const onPaymentCompleted = jest.fn();
+      const handler = new WebhookHandler(orderService, { onPaymentCompleted });
+      const result = encrypt(payload);
+
+      const first = await handler.handle({ result });
+      const second = await handler.handle({ result });
+
+      expect(first.alreadyProcessed).toBe(false);
+      expect(second.alreadyProcessed).toBe(true);
+      expect(onPaymentCompleted).toHaveBeenCalledTimes(1);
+    });
+
+    it('should process a retry again when the handler failed', async () => {
+      const onPaymentCompleted = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('database unavailable'))
+        .mockResolvedValueOnce(undefined);
+      const dedupeStore = new InMemoryDedupeStore();
+      const handler = new WebhookHandler(orderService, { onPaymentCompleted }, { dedupeStore });
+      const result = encrypt(payload);
+
+      await expect(handler.handle({ result })).rejects.toThrow('database unavailable');
+      const retry = await handler.handle({ result });
+
+      expect(retry.alreadyProcessed).toBe(false);
+      expect(onPaymentCompleted).toHaveBeenCalledTimes(2);
+    });
+
+    it('should process every delivery when deduplication is disabled', async () => {
+      const onPaymentCompleted = jest.fn();
+      const handler = new WebhookHandler(
+        orderService,
+        { onPaymentCompleted },
+        { dedupeStore: false },
+      );
+      const result = encrypt(payload);
+
+      await handler.handle({ result });
+      await handler.handle({ result });
+
+      expect(onPaymentCompleted).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('card verification release', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    let cardService: CardService;
+    let transactionService: TransactionService;
+    const releasedPayload = {
+      ...payload,
+      customData: { xMoneyReleaseCardVerification: 'void' },
+    };
+    const transaction = (transactionStatus: xMoneyTransactionStatusEnum) => ({
+      data: { transactionStatus } as xMoneyGetTransactionResponseDataDto,
+    });
+
+    beforeEach(() => {
+      cardService = new CardService(
+        new CommonService({ secretKey: `sk_test_${SECRET_KEY}`, logger }),
+      );
+      transactionService = (cardService as any).transactionService;
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      logger.error.mockReset();
+    });
+
+    it('should void a card save auth after the handlers, once they succeed', async () => {
+      const calls: string[] = [];
+      const onPaymentCompleted = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('database unavailable'))
+        .mockImplementation(() => calls.push('handler'));
+      jest
+        .spyOn(transactionService, 'getTransaction')
+        .mockResolvedValue(transaction(xMoneyTransactionStatusEnum.CompleteOk));
+      const voidSpy = jest.spyOn(transactionService, 'voidTransaction').mockImplementation(() => {
+        calls.push('void');
+        return Promise.resolve({
+          transactionId: 2,
+          transactionStatus: xMoneyTransactionStatusEnum.VoidOk,
+          amount: 100,
+        });
+      });
+      const handler = new WebhookHandler(orderService, { onPaymentCompleted }, {}, cardService);
+      const result = encrypt(releasedPayload);
+
+      await expect(handler.handle({ result })).rejects.toThrow('database unavailable');
+      expect(voidSpy).not.toHaveBeenCalled();
+
+      await handler.handle({ result });
+      expect(calls).toEqual(['handler', 'void']);
+      expect(voidSpy).toHaveBeenCalledWith(2);
+    });
+
+    it('should not release a charge that was already released', async () => {
+      jest
+        .spyOn(transactionService, 'getTransaction')
+        .mockResolvedValue(transaction(xMoneyTransactionStatusEnum.VoidOk));
+      const voidSpy = jest.spyOn(transactionService, 'voidTransaction');
+      const handler = new WebhookHandler(orderService, {}, { dedupeStore: false }, cardService);
+
+      await handler.handle({ result: encrypt(releasedPayload) });
+
+      expect(voidSpy).not.toHaveBeenCalled();
+    });
+
+    it('should log a failed release without failing the event', async () => {
+      jest
+        .spyOn(transactionService, 'getTransaction')
+        .mockResolvedValue(transaction(xMoneyTransactionStatusEnum.CompleteOk));
+      jest
+        .spyOn(transactionService, 'refundTransaction')
+        .mockRejectedValue(new Error('Transaction cannot be refunded'));
+      const onPaymentCompleted = jest.fn();
+      const handler = new WebhookHandler(orderService, { onPaymentCompleted }, {}, cardService);
+
+      const event = await handler.handle({
+        result: encrypt({ ...payload, customData: { xMoneyReleaseCardVerification: 'refund' } }),
+      });
+
+      expect(event.alreadyProcessed).toBe(false);
+      expect(onPaymentCompleted).toHaveBeenCalledTimes(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'xMoney card verification release failed' }),
+      );
+    });
+
+    it('should not release other payments', async () => {
+      const getTransactionSpy = jest.spyOn(transactionService, 'getTransaction');
+      const handler = new WebhookHandler(orderService, {}, {}, cardService);
+
+      await handler.handle({ result: encrypt(payload) });
+
+      expect(getTransactionSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import qs from 'qs';
+import { WebhookVerificationError } from '../errors';
+import {
+  WebhookEventDto,
+  WebhookHandlerOptionsDto,
+  WebhookHandlersDto,
+  WebhookPayloadCallback,
+  xMoneyOrderDecryptResponseDto,
+} from '../typings/dtos';
+import {
+  WebhookEventTypeEnum,
+  xMoneyTransactionStatusEnum,
+  xMoneyTransactionTypeEnum,
+} from '../typings/enums';
+import { OrderService } from '../services/order.service';
+import { CardService } from '../services/card.service';
+import { DedupeStore, InMemoryDedupeStore } from './dedupe-store';
+import { Money } from '../utils/money';
+import { isSupportedCurrency } from '../utils/currency';
+
+export const DEFAULT_DEDUPE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type WebhookRawBody = string | Uint8Array | Record<string, unknown>;
+
+export class WebhookHandler {
+  private orderService: OrderService;
+  private cardService?: CardService;
+  private handlers: WebhookHandlersDto;
+  private dedupeStore: DedupeStore | null;
+  private retentionMs: number;
+
+  public constructor(
+    orderService: OrderService,
+    handlers: WebhookHandlersDto = {},
+    options: WebhookHandlerOptionsDto = {},
+    // releases card save charges, see SaveCardInputDto.verification
+    cardService?: CardService,
+  ) {
+    this.orderService = orderService;
+    this.cardService = cardService;
+    this.handlers = handlers;
+    this.dedupeStore =
+      options.dedupeStore === false ? null : (options.dedupeStore ?? new InMemoryDedupeStore());
+    this.retentionMs = options.retentionMs ?? DEFAULT_DEDUPE_RETENTION_MS;
+  }
+
+  /**
+   * Extracts the encrypted `result` from a raw IPN / backUrl POST body
+   * (form-encoded, JSON or an already parsed object) and decrypts it.
+   */
+  public parse(rawBody: WebhookRawBody): xMoneyOrderDecryptResponseDto {
+    return this.orderService.decryptOrderResponse(this.extractEncryptedResult(rawBody));
+  }
+
+  public async parseAsync(rawBody: WebhookRawBody): Promise<xMoneyOrderDecryptResponseDto> {
+    return await this.orderService.decryptOrderResponseAsync(this.extractEncryptedResult(rawBody));
+  }
+
+  /**
+   * Runs the handlers, then `next` when given, under the same dedupe claim: the claim is
+   * released when either of them fails so that the retried IPN reaches both again.
+   */
+  public async handle(
+    rawBody: WebhookRawBody,
+    next?: (event: WebhookEventDto) => Promise<void>,
+  ): Promise<WebhookEventDto> {
+    const payload = await this.parseAsync(rawBody);
+    const event: WebhookEventDto = {
+      type: this.getEventType(payload),
+      payload,
+      money: this.getMoney(payload),
+      alreadyProcessed: false,
+    };
+
+    if (!this.dedupeStore) {
+      await this.dispatch(event);
+      await next?.(event);
+      return event;
+    }
+
+    const key = this.getDedupeKey(payload);
+    if (!(await this.dedupeStore.claim(key, this.retentionMs))) {
+      event.alreadyProcessed = true;
+      return event;
+    }
+
+    try {
+      await this.dispatch(event);
+      await next?.(event);
+    } catch (error) {
+      // let the retried IPN run the handlers again
+      await this.dedupeStore.release(key);
+      throw error;
+    }
+    return event;
+  }
+
+  public getDedupeKey(payload: xMoneyOrderDecryptResponseDto): string {
+    return `xmoney:webhook:${payload.transactionId}:${payload.transactionStatus}:${payload.timestamp}`;
+  }
+
+  public getEventType(payload: xMoneyOrderDecryptResponseDto): WebhookEventTypeEnum {
+    if (payload.transactionType === xMoneyTransactionTypeEnum.Chargeback) {
+      return WebhookEventTypeEnum.Chargeback;
+    }
+
+    if (
+      payload.transactionType === xMoneyTransactionTypeEnum.Refund ||
+      payload.transactionStatus === xMoneyTransactionStatusEnum.RefundOk
+    ) {
+      return WebhookEventTypeEnum.Refund;
+    }
+
+    switch (payload.transactionStatus) {
+      case xMoneyTransactionStatusEnum.CompleteOk:
+        return WebhookEventTypeEnum.PaymentCompleted;
+      case xMoneyTransactionStatusEnum.CompleteFailed:
+        return WebhookEventTypeEnum.PaymentFailed;
+      case xMoneyTransactionStatusEnum.InProgress:
+        return WebhookEventTypeEnum.PaymentPending;
+      default:
+        return WebhookEventTypeEnum.Other;
+    }
+  }
+
+  private getMoney(payload: xMoneyOrderDecryptResponseDto): Money | undefined {
+    if (!isSupportedCurrency(payload.currency)) {
+      return undefined;
+    }
+
+    try {
+      return Money.fromDecimal(payload.amount, payload.currency);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async dispatch(event: WebhookEventDto): Promise<void> {
+    const handlersByType: { [key in WebhookEventTypeEnum]?: WebhookPayloadCallback } = {
+      [WebhookEventTypeEnum.PaymentCompleted]: this.handlers.onPaymentCompleted,
+      [WebhookEventTypeEnum.PaymentFailed]: this.handlers.onPaymentFailed,
+      [WebhookEventTypeEnum.PaymentPending]: this.handlers.onPaymentPending,
+      [WebhookEventTypeEnum.Refund]: this.handlers.onRefund,
+      [WebhookEventTypeEnum.Chargeback]: this.handlers.onChargeback,
+    };
+
+    await handlersByType[event.type]?.(event.payload);
+    await this.handlers.onEvent?.(event);
+    // after the handlers, which a failed release must not block
+    await this.cardService?.releaseVerification(event.payload);
+  }
+
+  private extractEncryptedResult(rawBody: WebhookRawBody): string {
+    if (rawBody instanceof Uint8Array) {
+      return this.extractEncryptedResult(new TextDecoder().decode(rawBody));
+    }
+
+    if (typeof rawBody === 'string') {
+      const body = rawBody.trim();
+      if (!body) {
+        throw new WebhookVerificationError('Webhook body is empty');
+      }
+
+      if (body.startsWith('{')) {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(body);
+        } catch {
+          throw new WebhookVerificationError('Webhook body is not valid JSON');
+        }
+        return this.extractEncryptedResult(parsed as Record<string, unknown>);
+      }
+
+      // a bare "<iv>,<data>" value is accepted as well as a form-encoded body
+      if (/(^|&)result=/.test(body)) {
+        return this.extractEncryptedResult(qs.parse(body));
+      }
+      return body;
+    }
+
+    if (rawBody && typeof rawBody === 'object' && typeof rawBody.result === 'string') {
+      return rawBody.result;
+    }
+
+    throw new WebhookVerificationError('Webhook body does not contain a "result" field');
+  }
+}
@@ -0,0 +1,6 @@
+export {
+  parseWebviewMessage,
+  WEBVIEW_MESSAGE_SOURCE,
+  WEBVIEW_MESSAGE_VERSION,
+  WEBVIEW_IOS_MESSAGE_HANDLER,
+} from './webview-message';
@@ -0,0 +1,101 @@
+import * as vm from 'vm';
+import { parseWebviewMessage, WEBVIEW_MESSAGE_SOURCE } from './webview-message';
+import { getWebviewCheckoutHtmlString } from '../utils/get-webview-checkout-html-string';
+import { WebviewMessageTypeEnum } from '../typings/enums';
+
+// runs the inline script of the page against a fake browser and returns the posted messages
+const runPage = (host: 'react-native' | 'ios' | 'iframe', paymentForm: (config: any) => void) => {
+  const html = getWebviewCheckoutHtmlString({
+    scriptUrl: 'https://secure-stage.xmoney.com/sdk/0.0.9/xmoney.js',
+    publicKey: 'pk_test_abc123',
+    payload: 'payload',
+    checksum: 'checksum',
+    options: { cancelButtonLabel: 'Cancel', messageTargetOrigin: 'https://shop.example.com' },
+  });
+  const script = [...html.matchAll(/<script>([\s\S]*?)<\/script>/g)].pop()?.[1] as string;
+
+  const posted: unknown[] = [];
+  const listeners: Record<string, () => void> = {};
+  const elements: Record<string, any> = {};
+  const window: any = {
+    scrollTo: () => {},
+    addEventListener: (event: string, listener: () => void) => (listeners[event] = listener),
+    XMoneyPaymentForm: function (config: any) {
+      paymentForm(config);
+    },
+  };
+  if (host === 'react-native') {
+    window.ReactNativeWebView = { postMessage: (message: string) => posted.push(message) };
+  } else if (host === 'ios') {
+    window.webkit = { messageHandlers: { xmoney: { postMessage: (m: any) => posted.push(m) } } };
+  } else {
+    window.parent = {
+      postMessage: (message: any, origin: string) => posted.push([message, origin]),
+    };
+  }
+  const document = {
+    getElementById: (id: string) =>
+      (elements[id] ??= {
+        style: {},
+        addEventListener: (_event: string, listener: () => void) => (elements[id].click = listener),
+      }),
+  };
+
+  vm.runInNewContext(script, { window, document, JSON, String });
+  listeners.DOMContentLoaded();
+  return { posted, elements };
+};
+
+describe('webview messages', () => {
+  it('should post ready and paymentComplete messages to React Native', () => {
+    const { posted } = runPage('react-native', (config) => {
+      config.onReady();
+      config.onPaymentComplete({ transactionStatus: 'complete-ok', orderId: 1 });
+    });
+
+    expect(posted.map(parseWebviewMessage)).toEqual([
+      { source: WEBVIEW_MESSAGE_SOURCE, version: 1, type: 'ready', payload: {} },
+      {
+        source: WEBVIEW_MESSAGE_SOURCE,
+        version: 1,
+        type: 'paymentComplete',
+        payload: { transactionStatus: 'complete-ok', orderId: 1 },
+      },
+    ]);
+  });
+
+  it('should post errors and cancel to the iOS message handler', () => {
+    const { posted, elements } = runPage('ios', (config) =>
+      config.onError({ message: 'Card declined', code: 402 }),
+    );
+    elements['cancel-button'].click();
+
+    expect(posted.map((message) => parseWebviewMessage(message)?.type)).toEqual([
+      WebviewMessageTypeEnum.Error,
+      WebviewMessageTypeEnum.Cancel,
+    ]);
+    expect(parseWebviewMessage(posted[0])?.payload).toEqual({
+      message: 'Card declined',
+      code: 402,
+    });
+  });
+
+  it('should post to the parent window with the configured origin', () => {
+    const { posted } = runPage('iframe', (config) => config.onReady());
+
+    expect(posted).toEqual([
+      [expect.objectContaining({ type: 'ready' }), 'https://shop.example.com'],
+    ]);
+  });
+
+  it('should ignore messages that do not belong to the protocol', () => {
+    expect(parseWebviewMessage('not json')).toBeUndefined();
+    expect(parseWebviewMessage({ type: 'ready' })).toBeUndefined();
+    expect(
+      parseWebviewMessage({ source: WEBVIEW_MESSAGE_SOURCE, version: 2, type: 'ready' }),
+    ).toBeUndefined();
+    expect(
+      parseWebviewMessage({ source: WEBVIEW_MESSAGE_SOURCE, version: 1, type: 'error' }),
+    ).toBeUndefined();
+  });
+});
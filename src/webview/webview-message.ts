@@ -0,0 +1,46 @@
+import { WebviewMessageDto } from '../typings/dtos';
+import { WebviewMessageTypeEnum } from '../typings/enums';
+
+export const WEBVIEW_MESSAGE_SOURCE = 'xmoney-webview';
+export const WEBVIEW_MESSAGE_VERSION = 1;
+// name of the iOS WKScriptMessageHandler, `webkit.messageHandlers.xmoney`
+export const WEBVIEW_IOS_MESSAGE_HANDLER = 'xmoney';
+
+const MESSAGE_TYPES = new Set<string>(Object.values(WebviewMessageTypeEnum));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Decodes a message posted by the webview checkout page, e.g. `event.nativeEvent.data`
+ * in React Native or `event.data` of a window `message` event.
+ * Returns undefined for messages that do not belong to the protocol or use a newer version.
+ */
+export const parseWebviewMessage = (data: unknown): WebviewMessageDto | undefined => {
+  let message = data;
+  if (typeof data === 'string') {
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (
+    !isObject(message) ||
+    message.source !== WEBVIEW_MESSAGE_SOURCE ||
+    typeof message.version !== 'number' ||
+    message.version > WEBVIEW_MESSAGE_VERSION ||
+    typeof message.type !== 'string' ||
+    !MESSAGE_TYPES.has(message.type)
+  ) {
+    return undefined;
+  }
+
+  const payload = isObject(message.payload) ? message.payload : {};
+  if (message.type === WebviewMessageTypeEnum.Error && typeof payload.message !== 'string') {
+    return undefined;
+  }
+
+  return { ...message, payload } as WebviewMessageDto;
+};